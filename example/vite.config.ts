@@ -33,8 +33,7 @@ export default defineConfig({
         },
         {
           src: '../icons/icon-*.svg',
-          dest: 'snippets',
-          rename: (file, ext, src) => `${file}.liquid`,
+          svgSnippet: { comment: true },
           cleanMatch: 'icon-*.liquid',
         },
       ],
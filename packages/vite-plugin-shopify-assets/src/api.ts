@@ -0,0 +1,145 @@
+import { createLogger, createServer } from 'vite';
+
+import { resolveOptions } from './options.js';
+import { servePlugin } from './serve.js';
+import { createLedger } from './ledger.js';
+import { createContentCache } from './cache.js';
+import { flattenAssetMap } from './assets.js';
+import { cleanAssets, resolveAssets, syncAssets } from './sync.js';
+import { getGeneratedFiles } from './generate.js';
+import { createLevelLogger, mergeHooks } from './utils.js';
+import { createFailureCollector } from './failures.js';
+
+import type { InlineConfig, Logger, ViteDevServer } from 'vite';
+import type { AssetMap } from './assets.js';
+import type { PluginShopifyAssetsOptions, ResolvedPluginShopifyAssetsOptions } from './options.js';
+import type { SyncContext } from './sync.js';
+import type { FailureCollector } from './failures.js';
+
+export type AssetListEntry = {
+  /**
+   * Absolute path of the source file, or the source glob pattern of a generator target (sprite, locales, settings schema) or font faces target.
+   */
+  src: string;
+  /**
+   * Absolute path of the destination file.
+   */
+  dest: string;
+  /**
+   * Name of the theme root of the destination file, when `themeRoot` lists several theme roots.
+   */
+  root?: string;
+};
+
+const createContext = (
+  options: ResolvedPluginShopifyAssetsOptions,
+  logger: Logger,
+  failures?: FailureCollector,
+): SyncContext => ({
+  logger: createLevelLogger(logger, options.logLevel, options.name),
+  ledger: createLedger(options.themeRoot, options.ledger, options.preserve, options.dryRun),
+  manifest: new Map(),
+  cache: createContentCache(options.cache, options.dryRun),
+  hooks: mergeHooks(failures?.hooks, options.hooks),
+  mode: 'build',
+  timestamp: false,
+});
+
+/**
+ * Copies all assets to the theme and cleans the stale ones, exactly like the plugin does on serve start.
+ *
+ * ```js
+ * import { sync } from 'vite-plugin-shopify-assets';
+ *
+ * await sync({ themeRoot: 'theme', publicDir: 'frontend/assets', targets: ['fonts/*'] });
+ * ```
+ *
+ * @param {PluginShopifyAssetsOptions} options - Plugin options, as passed to `shopifyAssets()`.
+ * @param {Logger} [logger] - Vite logger (defaults to a new `info` logger).
+ * @returns The resolved asset map, with the outputs of all theme roots.
+ * @throws {Error} With the list of all files that could not be copied or deleted, when `failOnError` is enabled.
+ */
+export const sync = async (options: PluginShopifyAssetsOptions, logger: Logger = createLogger()): Promise<AssetMap> => {
+  const resolvedRoots = resolveOptions(options);
+  const failures = resolvedRoots.some(({ failOnError }) => failOnError) ? createFailureCollector() : undefined;
+  const assetMap: AssetMap = new Map();
+
+  for (const resolvedOptions of resolvedRoots) {
+    const rootAssetMap = await syncAssets(resolvedOptions, createContext(resolvedOptions, logger, failures));
+    rootAssetMap.forEach((outputs, src) => assetMap.set(src, [...(assetMap.get(src) ?? []), ...outputs]));
+  }
+
+  const error = failures?.flush();
+  if (error) throw error;
+
+  return assetMap;
+};
+
+/**
+ * Deletes the stale files (`cleanMatch` matches and stale fingerprinted copies) without copying anything.
+ * Only files written by the plugin can be deleted.
+ *
+ * @param {PluginShopifyAssetsOptions} options - Plugin options, as passed to `shopifyAssets()`.
+ * @param {Logger} [logger] - Vite logger (defaults to a new `info` logger).
+ */
+export const clean = async (options: PluginShopifyAssetsOptions, logger: Logger = createLogger()): Promise<void> => {
+  const resolvedRoots = resolveOptions(options);
+  const failures = resolvedRoots.some(({ failOnError }) => failOnError) ? createFailureCollector() : undefined;
+
+  for (const resolvedOptions of resolvedRoots) {
+    const context = createContext(resolvedOptions, logger, failures);
+
+    await context.ledger.load();
+    await cleanAssets(resolvedOptions, await resolveAssets(resolvedOptions, context), context);
+    await context.ledger.save();
+  }
+
+  const error = failures?.flush();
+  if (error) throw error;
+};
+
+/**
+ * Lists all the files the plugin would write, without touching the disk.
+ *
+ * @param {PluginShopifyAssetsOptions} options - Plugin options, as passed to `shopifyAssets()`.
+ * @param {Logger} [logger] - Vite logger (defaults to a new `info` logger), used to report collisions and violations.
+ * @returns The source and destination of each output, in theme root and target order.
+ */
+export const list = async (
+  options: PluginShopifyAssetsOptions,
+  logger: Logger = createLogger(),
+): Promise<AssetListEntry[]> => {
+  const entries: AssetListEntry[] = [];
+
+  for (const resolvedOptions of resolveOptions(options)) {
+    const { name: root, targets } = resolvedOptions;
+    const assetMap = await resolveAssets(resolvedOptions, createContext(resolvedOptions, logger));
+
+    entries.push(...flattenAssetMap(assetMap).map(([src, asset]) => ({ src, dest: asset.dest, root })));
+    for (const target of targets) {
+      entries.push(...(await getGeneratedFiles(target)).map((dest) => ({ src: target.src, dest, root })));
+      if (target.fontFace) entries.push({ src: target.src, dest: target.fontFace.file, root });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Syncs all assets, then keeps watching the asset sources, exactly like the plugin does on serve.
+ * It runs a Vite dev server in middleware mode (no HTTP server), with this plugin only.
+ *
+ * @param {PluginShopifyAssetsOptions} options - Plugin options, as passed to `shopifyAssets()`.
+ * @param {InlineConfig} [config] - Additional Vite config (eg: `root` or `logLevel`).
+ * @returns The Vite dev server, call `close()` to stop watching.
+ */
+export const watch = async (options: PluginShopifyAssetsOptions, config: InlineConfig = {}): Promise<ViteDevServer> =>
+  createServer({
+    configFile: false,
+    clearScreen: false,
+    appType: 'custom',
+    optimizeDeps: { noDiscovery: true, include: [] },
+    ...config,
+    server: { middlewareMode: true, hmr: false, ...config.server },
+    plugins: resolveOptions(options).map(servePlugin),
+  });
@@ -0,0 +1,390 @@
+import { dirname, join, parse, relative } from 'node:path';
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+
+import fg from 'fast-glob';
+import picomatch from 'picomatch';
+import { normalizePath } from 'vite';
+
+import {
+  copyAssetFile,
+  getDirSegments,
+  getLogicalName,
+  logDryRun,
+  logError,
+  logEvent,
+  logEventIgnored,
+  logWarn,
+  resolveAssetDest,
+  runCopyHooks,
+  toError,
+} from './utils.js';
+
+import type { Logger } from 'vite';
+import type { AssetManifest } from './manifest.js';
+import type { Ledger } from './ledger.js';
+import type { ContentCache } from './cache.js';
+import type { AssetEvent, AssetHooks, CollisionStrategy, RenameMode, ResolvedTarget } from './options.js';
+import type { ActionReason, CopyResult, NamingOptions } from './utils.js';
+
+/**
+ * A map with all source asset files (keys), and their corresponding resolved outputs (values): one resolved
+ * target per matching target, where `dest` is the final destination path. The same map drives both serve and build.
+ */
+export type AssetMap = Map<string, ResolvedTarget[]>;
+
+export type AssetCollision = {
+  /**
+   * Destination path all the sources resolved to, before `hash` (ie: with their logical file name).
+   */
+  dest: string;
+  /**
+   * Conflicting source files, in target and file path order.
+   */
+  sources: string[];
+  /**
+   * Destination path of each conflicting source (in the same order), once the collision is resolved.
+   * `undefined` when the source was dropped (with `error` and `warn-first-wins`, only the first source is kept).
+   */
+  dests: Array<string | undefined>;
+};
+
+/**
+ * Returns all the outputs of an asset map, as a flat list of source files and resolved targets.
+ */
+export const flattenAssetMap = (assetMap: AssetMap): Array<[string, ResolvedTarget]> =>
+  Array.from(assetMap).flatMap(([src, outputs]) => outputs.map((output): [string, ResolvedTarget] => [src, output]));
+
+/**
+ * Returns the file name of a colliding asset, prefixed with its directory path relative to `publicDir`.
+ * eg: `images/hero/bg.png` -> `images-hero-bg.png`
+ */
+const prefixPath = (src: string, fileName: string, publicDir: string): string =>
+  [...getDirSegments(src, publicDir), fileName].join('-');
+
+/**
+ * Returns the file name of a colliding asset, suffixed with the hash of its path relative to `publicDir`.
+ * eg: `images/hero/bg.png` -> `bg-1a2b3c4d.png`
+ */
+const hashSuffix = (src: string, fileName: string, publicDir: string): string => {
+  const { name, ext } = parse(fileName);
+  const hash = createHash('sha256')
+    .update(normalizePath(relative(publicDir, src)))
+    .digest('hex')
+    .slice(0, 8);
+
+  return `${name}-${hash}${ext}`;
+};
+
+/**
+ * Returns the targets a source file belongs to, ie: the targets matching the file and not ignoring it.
+ *
+ * @param {ResolvedTarget[]} targets - Resolved targets.
+ * @param {string} file - Absolute path of the source file.
+ * @returns The matching targets, and whether the file was matched but ignored by all of them.
+ */
+export const matchTargets = (
+  targets: ResolvedTarget[],
+  file: string,
+): { matched: ResolvedTarget[]; ignored: boolean } => {
+  const candidates = targets.filter((target) => picomatch(target.src)(file));
+  const matched = candidates.filter((target) => !target.ignore.some((glob) => picomatch(glob)(file)));
+
+  return { matched, ignored: candidates.length > 0 && !matched.length };
+};
+
+/**
+ * Whether a target generates its own files from all of its sources (sprites, locales, settings schema),
+ * instead of copying them.
+ */
+export const isGeneratorTarget = (target: ResolvedTarget): boolean =>
+  !!(target.sprite || target.locales || target.settingsSchema);
+
+/**
+ * Resolves the outputs of a single source file, like `resolveAssetMap` does, without handling collisions.
+ *
+ * @param {ResolvedTarget[]} targets - Resolved targets.
+ * @param {string} src - Absolute path of the source file.
+ * @param {NamingOptions} naming - The resolved `publicDir`, and the mode.
+ * @returns One resolved target per matching target (generator targets excluded), with unique destinations.
+ */
+export const resolveSourceOutputs = async (
+  targets: ResolvedTarget[],
+  src: string,
+  naming: NamingOptions,
+): Promise<ResolvedTarget[]> => {
+  const outputs: ResolvedTarget[] = [];
+
+  for (const target of matchTargets(targets, src).matched) {
+    if (isGeneratorTarget(target)) continue;
+
+    const dest = await resolveAssetDest(target, src, naming);
+    if (!outputs.some((output) => output.dest === dest)) outputs.push({ ...target, dest });
+  }
+
+  return outputs;
+};
+
+/**
+ * Resolves all static asset sources of the given targets to their destination paths, applying `rename`,
+ * `hash` and the collision strategy. Generator targets (sprites, locales, settings schema) are not included, as they write their own files.
+ *
+ * A source file matched by several targets gets one output per target (eg: an SVG copied to `assets/`
+ * and converted to a snippet), unless they resolve to the same destination.
+ *
+ * The same map drives both serve and build, so files always land in the same place with the same name.
+ *
+ * @param {ResolvedTarget[]} targets - Resolved targets.
+ * @param {object} options - The resolved `publicDir` and `collisions` plugin options, and the mode.
+ * @returns The asset map, and the collisions found (with `error` and `warn-first-wins`, the first source wins).
+ */
+export const resolveAssetMap = async (
+  targets: ResolvedTarget[],
+  options: {
+    publicDir: string;
+    collisions: CollisionStrategy;
+    mode: RenameMode;
+  },
+): Promise<{ assetMap: AssetMap; collisions: AssetCollision[] }> => {
+  const { publicDir, collisions: strategy, mode } = options;
+
+  const assetMap: AssetMap = new Map();
+
+  /**
+   * Sources and their output, by logical destination (before `hash`): fingerprinted copies of sources with the same
+   * name never share a destination, but they still collide (eg: in the asset manifest).
+   */
+  const nameGroups = new Map<string, Array<[string, ResolvedTarget]>>();
+
+  for (const target of targets) {
+    if (isGeneratorTarget(target)) continue;
+
+    const assetFiles = (await fg(normalizePath(target.src), { ignore: target.ignore })).sort();
+
+    for (const file of assetFiles) {
+      const logicalName = await getLogicalName(target, file, { publicDir, mode });
+      const dest = await resolveAssetDest(target, file, { publicDir, mode }, logicalName);
+      const outputs = assetMap.get(file) ?? [];
+
+      // Overlapping targets resolving to the same destination produce a single output (the first one).
+      if (outputs.some((output) => output.dest === dest)) continue;
+
+      const output = { ...target, dest };
+      assetMap.set(file, [...outputs, output]);
+
+      // A source only collides with other sources.
+      const logicalDest = normalizePath(join(target.dest, logicalName));
+      const group = nameGroups.get(logicalDest) ?? [];
+      if (!group.some(([src]) => src === file)) nameGroups.set(logicalDest, [...group, [file, output]]);
+    }
+  }
+
+  const removeOutput = (src: string, dest: string) => {
+    const outputs = (assetMap.get(src) ?? []).filter((output) => output.dest !== dest);
+    if (outputs.length) assetMap.set(src, outputs);
+    else assetMap.delete(src);
+  };
+
+  const collisions: AssetCollision[] = [];
+
+  for (const [dest, group] of nameGroups) {
+    if (group.length < 2) continue;
+
+    const dests: Array<string | undefined> = [];
+
+    for (const [index, [src, output]] of group.entries()) {
+      if (strategy === 'error' || strategy === 'warn-first-wins') {
+        if (index > 0) removeOutput(src, output.dest);
+        dests.push(index > 0 ? undefined : output.dest);
+        continue;
+      }
+
+      // All colliding sources are renamed (not only the later ones), so the result
+      // does not depend on the order in which files are created. The new name is fingerprinted again.
+      const rename = strategy === 'prefix-path' ? prefixPath : hashSuffix;
+      output.logicalName = rename(src, parse(dest).base, publicDir);
+      output.dest = await resolveAssetDest({ ...output, dest: dirname(dest) }, src, { publicDir, mode });
+      dests.push(output.dest);
+    }
+
+    collisions.push({ dest, sources: group.map(([src]) => src), dests });
+  }
+
+  // Renamed sources could still collide with other files, in which case the first one wins.
+  if (strategy === 'prefix-path' || strategy === 'hash-suffix') {
+    const destSet = new Set<string>();
+    for (const [src, output] of flattenAssetMap(assetMap)) {
+      if (destSet.has(output.dest)) removeOutput(src, output.dest);
+      destSet.add(output.dest);
+    }
+  }
+
+  return { assetMap, collisions };
+};
+
+/**
+ * Logs the collisions found while resolving the asset map.
+ *
+ * @throws {Error} With the list of all conflicting sources, when the collision strategy is `error`.
+ */
+export const reportCollisions = (
+  collisions: AssetCollision[],
+  logger: Logger,
+  options: {
+    collisions: CollisionStrategy;
+    publicDir: string;
+    timestamp?: boolean;
+  },
+): void => {
+  if (!collisions.length) return;
+
+  const { collisions: strategy, publicDir, timestamp } = options;
+  const toRelative = (file: string) => normalizePath(relative(publicDir, file));
+
+  if (strategy === 'error') {
+    const list = collisions.map(
+      ({ dest, sources }) => `  - ${relative(process.cwd(), dest)}: ${sources.map(toRelative).join(', ')}`,
+    );
+    throw new Error(`[shopify-assets] Asset collisions found, sources with the same destination:\n${list.join('\n')}`);
+  }
+
+  for (const { sources, dests } of collisions) {
+    if (strategy === 'warn-first-wins') {
+      const ignored = sources.slice(1).map(toRelative).join(', ');
+      logWarn(`Duplicate asset found. Ignoring ${ignored} (using ${toRelative(sources[0] ?? '')})`, logger, timestamp);
+      continue;
+    }
+
+    for (const [index, src] of sources.entries()) {
+      const dest = dests[index];
+      if (dest) logWarn(`Duplicate asset found. Renamed ${toRelative(src)} to ${parse(dest).base}`, logger, timestamp);
+    }
+  }
+};
+
+/**
+ * Number of files per result of `syncAssetMap`.
+ */
+export type SyncResults = Record<CopyResult | 'deleted' | 'failed', number>;
+
+/**
+ * Applies the difference between two asset maps to the disk: deletes the destinations that are
+ * gone or moved, and copies the new, moved and changed assets.
+ *
+ * @param {AssetMap} previous - Asset map before the change.
+ * @param {AssetMap} next - Asset map after the change.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options, the naming options, the changed source files, the whole asset map (to resolve stylesheet references, defaults to `next`), the asset manifest, the ownership ledger, the content cache and the lifecycle hooks.
+ * @returns The number of files per result (files of a dry run are not counted).
+ */
+export const syncAssetMap = async (
+  previous: AssetMap,
+  next: AssetMap,
+  logger: Logger,
+  options: {
+    naming: NamingOptions;
+    changed?: Set<string>;
+    assetMap?: AssetMap;
+    timestamp?: boolean;
+    manifest?: AssetManifest;
+    ledger?: Ledger;
+    cache?: ContentCache;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  },
+): Promise<SyncResults> => {
+  const { naming, changed, assetMap = next, timestamp, manifest, ledger, cache, hooks, dryRun } = options;
+  const results: SyncResults = { copied: 0, unchanged: 0, skipped: 0, deleted: 0, failed: 0 };
+  const nextDestSet = new Set(flattenAssetMap(next).map(([, output]) => output.dest));
+
+  for (const [src, output] of flattenAssetMap(previous)) {
+    if (nextDestSet.has(output.dest) || !existsSync(output.dest)) continue;
+
+    const reason: ActionReason = !next.has(src)
+      ? 'source deleted'
+      : output.hash
+        ? 'stale fingerprint'
+        : 'destination changed';
+    const relativePath = relative(process.cwd(), output.dest);
+
+    if (ledger && !ledger.canDelete(output.dest)) {
+      logEventIgnored('delete', relativePath, logger, timestamp);
+      continue;
+    }
+
+    if (dryRun) {
+      ledger?.delete(output.dest);
+      cache?.delete(output.dest);
+      logDryRun('delete', output.dest, reason, logger, timestamp, src);
+      continue;
+    }
+
+    const event: AssetEvent = { type: 'delete', src, dest: output.dest, target: output, reason };
+
+    const startTime = performance.now();
+
+    try {
+      await unlink(output.dest);
+      event.duration = performance.now() - startTime;
+    } catch (error: unknown) {
+      results.failed++;
+      logError(`Could not delete ${relativePath}`, logger, timestamp);
+      logger.error(toError(error).message);
+      await hooks?.onError?.(toError(error), event);
+      continue;
+    }
+
+    ledger?.delete(output.dest);
+    cache?.delete(output.dest);
+    results.deleted++;
+    logEvent('delete', relativePath, logger, timestamp);
+    await hooks?.onAssetDeleted?.(event);
+  }
+
+  manifest?.clear();
+
+  for (const [src, output] of flattenAssetMap(next)) {
+    if (output.hash && manifest) {
+      manifest.set(output.dest, { name: await getLogicalName(output, src, naming), dest: output.dest });
+    }
+
+    const previousOutputs = previous.get(src);
+    const unchanged = previousOutputs?.some((previousOutput) => previousOutput.dest === output.dest);
+    if (unchanged && !changed?.has(src)) continue;
+
+    const destExists = existsSync(output.dest);
+    const event = previousOutputs && destExists ? 'update' : 'create';
+    const relativePath = relative(process.cwd(), output.dest);
+
+    if (dryRun) {
+      logDryRun('copy', output.dest, event === 'create' ? 'source created' : 'source updated', logger, timestamp, src);
+      continue;
+    }
+
+    const assetEvent: AssetEvent = { type: event, src, dest: output.dest, target: output };
+    const startTime = performance.now();
+    let result: CopyResult;
+
+    try {
+      result = await copyAssetFile(src, output.dest, output, cache, { assetMap, logger, timestamp });
+      assetEvent.duration = performance.now() - startTime;
+    } catch (error: unknown) {
+      results.failed++;
+      logError(`could not create ${relativePath}`, logger, timestamp);
+      logger.error(toError(error).message);
+      await hooks?.onError?.(toError(error), assetEvent);
+      continue;
+    }
+
+    // Only the files created by the plugin are recorded in the ledger, never the ones found on the disk.
+    if (result === 'copied' && !destExists) ledger?.add(output.dest);
+
+    results[result]++;
+    if (result === 'copied') logEvent(event, relativePath, logger, timestamp);
+    else if (result === 'skipped') logEventIgnored(event, relativePath, logger, timestamp);
+    await runCopyHooks(result, assetEvent, hooks);
+  }
+
+  return results;
+};
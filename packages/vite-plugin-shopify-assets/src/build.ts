@@ -3,36 +3,115 @@ import { unlink } from 'node:fs/promises';
 import { existsSync, mkdirSync, readdirSync } from 'node:fs';
 
 import fg from 'fast-glob';
+import picomatch from 'picomatch';
 import { normalizePath } from 'vite';
 
-import { copyAllAssetMap, getBundleFiles, isChildDir, logEvent, logWarn, logWarnConsole, renameFile } from './utils.js';
+import {
+  copyAllAssetMap,
+  getBundleFiles,
+  getHashVariantsGlob,
+  getLogicalName,
+  isChildDir,
+  logDryRun,
+  logWarn,
+  logWarnConsole,
+  createLevelLogger,
+  isLogLevelEnabled,
+  mergeHooks,
+  toError,
+} from './utils.js';
+import {
+  flattenAssetMap,
+  isGeneratorTarget,
+  matchTargets,
+  reportCollisions,
+  resolveAssetMap,
+  resolveSourceOutputs,
+  syncAssetMap,
+} from './assets.js';
+import { reportViolations, validateAssetMap } from './validate.js';
+import { writeFontFaces } from './fonts.js';
+import { getGeneratedOutputs, writeGeneratedFiles } from './generate.js';
+import { reportShopifyIgnored, writeIgnoreFiles } from './ignore.js';
+import { getSchemaSection } from './section.js';
+import { getCssUrlsSources } from './css.js';
+import { writeManifest } from './manifest.js';
+import { createLedger } from './ledger.js';
+import { createContentCache } from './cache.js';
+import { createReporter } from './report.js';
+import { createFailureCollector } from './failures.js';
 
 import type { Logger, Plugin, ResolvedConfig, UserConfig } from 'vite';
 import type { OutputAsset, OutputChunk } from 'rollup';
-import type { ResolvedTarget, ResolvedPluginShopifyAssetsOptions } from './options.js';
-
-export type AssetMap = Map<string, ResolvedTarget>;
+import type { AssetEvent, ResolvedPluginShopifyAssetsOptions, ResolvedTarget } from './options.js';
+import type { AssetMap } from './assets.js';
+import type { AssetManifest } from './manifest.js';
+import type { ActionReason, NamingOptions } from './utils.js';
 
 export const buildPlugin = ({
+  name: rootName,
   publicDir,
   themeRoot,
   themeAssetsDir,
   targets,
+  manifest: manifestOptions,
+  ledger: ledgerFile,
+  preserve,
+  gitignore,
+  shopifyignore,
+  cache: cacheFile,
+  dryRun,
+  collisions,
+  strict,
+  failOnError,
+  hooks: userHooks,
   onBuild,
   onWatch,
-  silent,
+  logLevel,
+  report: reportFile,
 }: ResolvedPluginShopifyAssetsOptions): Plugin => {
   let logger: Logger;
   let clean: boolean;
+  let outDir: string;
   const currentDir = resolve();
 
+  /**
+   * How source file names are resolved (for `rename`), always with the build mode, including watch mode.
+   */
+  const naming: NamingOptions = { publicDir, mode: 'build' };
+
+  /**
+   * The ownership ledger, with all files written by the plugin and by the Vite build (only those can be cleaned).
+   */
+  const ledger = createLedger(themeRoot, ledgerFile, preserve, dryRun);
+
+  /**
+   * The content cache, to skip the unchanged files.
+   */
+  const cache = createContentCache(cacheFile, dryRun);
+
+  /**
+   * The build reporter, recording every file action for the JSON report (when enabled).
+   */
+  const reporter = reportFile ? createReporter(reportFile, dryRun) : undefined;
+
+  /**
+   * The failure collector, to fail the build on copy and delete errors (with `failOnError`).
+   */
+  const failures = failOnError ? createFailureCollector() : undefined;
+
+  /**
+   * The user lifecycle hooks, and the ones of the build reporter and failure collector.
+   */
+  const hooks = mergeHooks(reporter?.hooks, failures?.hooks, userHooks);
+
   /**
    * A map with all the watched source asset files (keys), and their corresponding resolved target (values).
    */
   const assetMap: AssetMap = new Map();
 
   /**
-   * A set of all asset directories to watch, based on publicDir.
+   * A set of all asset directories to watch (recursively): the glob base of every target.
    */
   const assetDirSet = new Set<string>();
 
@@ -46,8 +125,180 @@ export const buildPlugin = ({
    */
   const assetFilesSet = new Set<string>();
 
+  /**
+   * A map with all fingerprinted source asset files, and their current manifest entry.
+   */
+  const manifest: AssetManifest = new Map();
+
+  /**
+   * A set of glob patterns matching all fingerprinted copies of the current assets, to clean stale ones.
+   */
+  const hashVariantsSet = new Set<string>();
+
+  /**
+   * Whether all targets must be globbed again on the next build: on the first build, and in watch mode
+   * once a source file is created (or a colliding source is deleted).
+   */
+  let needsResolve = true;
+
+  /**
+   * Whether the whole asset map must be copied on closeBundle, ie: after the asset map was fully resolved.
+   */
+  let copyAll = true;
+
+  /**
+   * Source asset files created or updated since the last build (watch mode), the only ones to copy.
+   */
+  const dirtySources = new Set<string>();
+
+  /**
+   * The outputs of the dirty source files before they changed, to clean the stale fingerprinted copies.
+   */
+  const dirtyOutputs: AssetMap = new Map();
+
+  /**
+   * Generator targets (sprites, locales, settings schema) with created, updated or deleted sources since the last build (watch mode).
+   */
+  const dirtyGenerators = new Set<ResolvedTarget>();
+
+  /**
+   * Destination paths requested by more than one source, and those sources: any change to them
+   * needs the collision strategy, so the asset map is resolved again.
+   */
+  const collisionDestSet = new Set<string>();
+  const collisionSourceSet = new Set<string>();
+
+  const addAssetOutput = async (file: string, asset: ResolvedTarget): Promise<void> => {
+    assetDestSet.add(asset.dest);
+
+    if (asset.hash) {
+      manifest.set(asset.dest, { name: await getLogicalName(asset, file, naming), dest: asset.dest });
+    }
+
+    const variantsGlob = await getHashVariantsGlob({ ...asset, dest: dirname(asset.dest) }, file, naming);
+    if (variantsGlob) hashVariantsSet.add(variantsGlob);
+
+    // Add the file to our asset map and asset files set.
+    assetMap.set(file, [...(assetMap.get(file) ?? []), asset]);
+    assetFilesSet.add(basename(asset.dest));
+  };
+
+  const removeAssetOutputs = (file: string): void => {
+    for (const output of assetMap.get(file) ?? []) {
+      assetDestSet.delete(output.dest);
+      assetFilesSet.delete(basename(output.dest));
+      manifest.delete(output.dest);
+    }
+
+    assetMap.delete(file);
+  };
+
+  /**
+   * Marks the stylesheets with rewritten references as dirty, once the destination of another file changed.
+   */
+  const markCssUrlsDirty = (): void => {
+    for (const file of getCssUrlsSources(assetMap)) {
+      dirtySources.add(file);
+      if (!dirtyOutputs.has(file)) dirtyOutputs.set(file, assetMap.get(file) ?? []);
+    }
+  };
+
+  /**
+   * Globs all targets and rebuilds the asset map from scratch.
+   */
+  const resolveAll = async (watchMode: boolean): Promise<void> => {
+    assetMap.clear();
+    assetDirSet.clear();
+    assetDestSet.clear();
+    assetFilesSet.clear();
+    manifest.clear();
+    hashVariantsSet.clear();
+    collisionDestSet.clear();
+    collisionSourceSet.clear();
+
+    // Generated files (sprites, locales, settings schema, font faces snippets, asset manifest) are written
+    // on closeBundle, we only need to keep them from being cleaned.
+    for (const generatedFile of await getGeneratedOutputs(targets, manifestOptions)) {
+      assetDestSet.add(generatedFile);
+      assetFilesSet.add(basename(generatedFile));
+    }
+
+    // Static assets are not watched in Vite/Rollup, so we watch the glob base of every target (including generator
+    // targets): its whole tree is watched, so files created in new directories are found as well.
+    if (watchMode) {
+      targets.forEach((target) => assetDirSet.add(picomatch.scan(target.src).base));
+    }
+
+    const resolved = await resolveAssetMap(targets, { publicDir, collisions, mode: 'build' });
+    reportCollisions(resolved.collisions, logger, { collisions, publicDir });
+    reporter?.addCollisions(resolved.collisions, collisions);
+    reporter?.addRenames(resolved.assetMap);
+    reportViolations(await validateAssetMap(resolved.assetMap, themeRoot), logger, { publicDir, strict });
+
+    for (const collision of resolved.collisions) {
+      collisionDestSet.add(collision.dest);
+      collision.sources.forEach((src) => collisionSourceSet.add(src));
+    }
+
+    for (const [file, asset] of flattenAssetMap(resolved.assetMap)) {
+      await addAssetOutput(file, asset);
+    }
+
+    await reportShopifyIgnored(Array.from(assetDestSet), themeRoot, logger);
+
+    needsResolve = false;
+    copyAll = true;
+    dirtySources.clear();
+    dirtyOutputs.clear();
+  };
+
+  /**
+   * Resolves the outputs of the dirty source files only. Returns `false` when a new destination
+   * collides with another source, in which case the whole asset map must be resolved.
+   */
+  const resolveDirty = async (): Promise<boolean> => {
+    const dirtyAssetMap: AssetMap = new Map();
+
+    for (const file of dirtySources) {
+      const previousOutputs = assetMap.get(file) ?? [];
+
+      // The fingerprint of a colliding source changes with its content, so the collision strategy is applied again.
+      if (collisionSourceSet.has(file) && previousOutputs.some((output) => output.hash)) return false;
+
+      // Colliding sources keep the destinations given by the collision strategy, only their content changed.
+      const outputs = collisionSourceSet.has(file)
+        ? previousOutputs
+        : await resolveSourceOutputs(targets, file, naming);
+      const previousDests = new Set(previousOutputs.map((output) => output.dest));
+
+      const collides = outputs.some(
+        (output) =>
+          !previousDests.has(output.dest) && (assetDestSet.has(output.dest) || collisionDestSet.has(output.dest)),
+      );
+      if (collides) return false;
+
+      dirtyAssetMap.set(file, outputs);
+      if (!dirtyOutputs.has(file)) dirtyOutputs.set(file, previousOutputs);
+    }
+
+    reportViolations(await validateAssetMap(dirtyAssetMap, themeRoot), logger, { publicDir, strict });
+    reporter?.addRenames(dirtyAssetMap);
+    await reportShopifyIgnored(
+      flattenAssetMap(dirtyAssetMap).map(([, output]) => output.dest),
+      themeRoot,
+      logger,
+    );
+
+    for (const [file, outputs] of dirtyAssetMap) {
+      removeAssetOutputs(file);
+      for (const output of outputs) await addAssetOutput(file, output);
+    }
+
+    return true;
+  };
+
   return {
-    name: 'vite-plugin-shopify-assets:build',
+    name: `vite-plugin-shopify-assets:build${rootName ? `:${rootName}` : ''}`,
     apply: 'build',
 
     config: (_config: UserConfig): UserConfig => {
@@ -58,7 +309,8 @@ export const buildPlugin = ({
       if (typeof _config?.publicDir !== 'undefined') {
         const relativePublicDir = relative(currentDir, publicDir);
 
-        if (_config?.publicDir !== false) {
+        // With several theme roots, the publicDir was already set by the plugin of the previous theme root.
+        if (_config?.publicDir !== false && resolve(_config.publicDir) !== resolve(publicDir)) {
           logWarnConsole(
             `Your vite config.publicDir option is set to "${_config.publicDir}", but it will be ignored - Please set this in the plugin options instead. Using: ${relativePublicDir}. `,
           );
@@ -90,7 +342,10 @@ export const buildPlugin = ({
     },
 
     configResolved(_config: ResolvedConfig): void {
-      logger = _config.logger;
+      logger = createLevelLogger(_config.logger, logLevel, rootName);
+      outDir = resolve(_config.root, _config.build.outDir);
+
+      if (dryRun) logWarn('Dry run enabled - no files will be written or deleted', logger);
 
       if (targets.length > 0 && !existsSync(publicDir)) {
         const relativePublicDir = relative(currentDir, publicDir);
@@ -98,7 +353,7 @@ export const buildPlugin = ({
           `Your publicDir does not exist, creating it at ${relativePublicDir}/ - Use this folder to store the source static assets for your Shopify theme`,
           logger,
         );
-        mkdirSync(publicDir);
+        if (!dryRun) mkdirSync(publicDir);
       }
 
       if (!existsSync(themeAssetsDir)) {
@@ -107,47 +362,24 @@ export const buildPlugin = ({
           `Your Shopify theme assets folder does not exist - creating it at ${relativeThemeAssetsDir}/ - Your static assets will be copied to this folder`,
           logger,
         );
-        mkdirSync(themeAssetsDir);
+        if (!dryRun) mkdirSync(themeAssetsDir, { recursive: true });
       }
     },
 
     async buildStart(): Promise<void> {
-      // This hook is triggered on every change in watch mode
-      // so we need to clear the asset map and rebuild it.
-      assetMap.clear();
-      assetDestSet.clear();
-
-      for (const target of targets) {
-        const assetFiles = await fg(normalizePath(target.src), { ignore: target.ignore });
+      const watchMode = onWatch && this.meta.watchMode;
 
-        for (const file of assetFiles) {
-          const fileName = target.rename ? await renameFile(basename(file), file, target.rename) : basename(file);
-          const resolvedDest = normalizePath(resolve(target.dest, fileName));
+      await ledger.load();
+      await cache.load();
 
-          // Static assets are not watched in Vite/Rollup, so we
-          // collect all relevant asset directories to watch.
-          if (onWatch && this.meta.watchMode) {
-            assetDirSet.add(normalizePath(resolve(themeAssetsDir, dirname(file))));
-          }
-
-          // Check if the asset is a duplicate.
-          if (assetDestSet.has(resolvedDest)) {
-            if (!silent) {
-              const relativeDupeSrc = normalizePath(relative(publicDir, file));
-              logWarn(`Duplicate asset found. Ignoring ${relativeDupeSrc}`, logger, true);
-            }
-            continue;
-          }
-          assetDestSet.add(resolvedDest);
-
-          // Add the file to our asset map and asset files set.
-          assetMap.set(file, { ...target, dest: resolvedDest });
-          assetFilesSet.add(basename(file));
-        }
+      // This hook is triggered on every change in watch mode, but all targets are only globbed again
+      // when the watched directories changed: otherwise only the dirty source files are resolved.
+      if (needsResolve || !watchMode || !(await resolveDirty())) {
+        await resolveAll(watchMode);
       }
 
-      // Watch the collected asset directories.
-      if (onWatch && this.meta.watchMode) {
+      // Watch the collected asset directories (watch files are reset on every build).
+      if (watchMode) {
         for (const dir of assetDirSet.values()) {
           this.addWatchFile(dir);
         }
@@ -155,87 +387,240 @@ export const buildPlugin = ({
     },
 
     async writeBundle(_, bundle: { [fileName: string]: OutputAsset | OutputChunk }): Promise<void> {
-      if (!clean) return;
+      // Files emitted by the Vite build are owned by the plugin as well, so they can be cleaned once stale
+      // (only by the theme root they are written to, when `themeRoot` lists several theme roots).
+      Object.keys(bundle)
+        .map((fileName) => normalizePath(join(outDir, fileName)))
+        .filter((file) => isChildDir(themeRoot, file))
+        .forEach((file) => ledger.add(file, true));
+
+      // Stale fingerprinted copies of the current assets are always cleaned, as they are never
+      // referenced again (the asset manifest only points to the current ones).
+      const staleHashedFiles = hashVariantsSet.size
+        ? await fg(Array.from(hashVariantsSet), { ignore: Array.from(assetDestSet) })
+        : [];
+
+      if (!clean && !staleHashedFiles.length) return;
+
+      const filesToDelete = new Map<string, ActionReason>(
+        staleHashedFiles.map((file) => [file, 'stale fingerprint'] as const),
+      );
+
+      if (clean) {
+        const themeAssetFiles = readdirSync(themeAssetsDir);
+        const newBundleFiles = getBundleFiles(bundle);
+        themeAssetFiles
+          .filter((file) => !newBundleFiles.includes(file) && !assetFilesSet.has(file))
+          .map((file) => normalizePath(join(themeAssetsDir, file)))
+          .filter((file) => !assetDestSet.has(file) && !filesToDelete.has(file))
+          .forEach((file) => filesToDelete.set(file, 'not in bundle'));
+
+        for (const target of targets) {
+          if (!target.cleanMatch) continue;
+
+          const matchFiles = await fg(target.cleanMatch);
+          if (!matchFiles.length) continue;
+
+          const matchToDelete = matchFiles.filter((file) => !assetDestSet.has(file) && !filesToDelete.has(file));
+          if (!matchToDelete.length) continue;
+
+          matchToDelete.forEach((file) => filesToDelete.set(file, 'matched cleanMatch'));
+        }
 
-      const themeAssetFiles = readdirSync(themeAssetsDir);
-      const newBundleFiles = getBundleFiles(bundle);
-      const oldFiles = themeAssetFiles
-        .filter((file) => !newBundleFiles.includes(file) && !assetFilesSet.has(file))
-        .map((file) => normalizePath(join(themeAssetsDir, file)));
+        // Files created by the plugin that no target produces anymore, eg: after a `rename` change
+        // (the ones already deleted by other means are only forgotten).
+        for (const file of ledger.files()) {
+          if (assetDestSet.has(file) || filesToDelete.has(file)) continue;
+          if (existsSync(file)) filesToDelete.set(file, 'no longer produced');
+          else ledger.delete(file);
+        }
+      }
 
-      const filesToDelete = new Set(oldFiles.length ? oldFiles : []);
+      // Only files written by the plugin can be deleted.
+      const ownedFilesToDelete = Array.from(filesToDelete.keys()).filter(ledger.canDelete);
+      if (!ownedFilesToDelete.length) return;
 
-      for (const target of targets) {
-        if (!target.cleanMatch) continue;
+      if (dryRun) {
+        for (const file of ownedFilesToDelete) {
+          logDryRun('delete', file, filesToDelete.get(file) ?? 'not in bundle', logger);
+          ledger.delete(file);
+        }
+        return;
+      }
 
-        const matchFiles = await fg(target.cleanMatch);
-        if (!matchFiles.length) continue;
+      for (const file of ownedFilesToDelete) {
+        const event: AssetEvent = { type: 'delete', dest: file, reason: filesToDelete.get(file) };
 
-        const matchToDelete = matchFiles.filter((file) => !assetDestSet.has(file));
-        if (!matchToDelete.length) continue;
+        try {
+          if (existsSync(file)) await unlink(file);
+        } catch (error: unknown) {
+          logger.error(toError(error).message);
+          await hooks.onError?.(toError(error), event);
+          continue;
+        }
 
-        matchToDelete.forEach((file) => filesToDelete.add(file));
+        // A file which could not be deleted stays in the ledger, to be deleted on the next run.
+        ledger.delete(file);
+        await hooks.onAssetDeleted?.(event);
       }
-
-      if (!filesToDelete.size) return;
-
-      await Promise.all(
-        Array.from(filesToDelete).map(async (file) => {
-          return existsSync(file) ? unlink(file).then(() => Promise.resolve(file)) : Promise.resolve(file);
-        }),
-      ).catch((error: unknown) => {
-        if (silent) return;
-        const message = error instanceof Error ? error.message : 'An unknown error occurred while deleting files';
-        logger.error(message);
-      });
     },
 
     async closeBundle(): Promise<void> {
       if (onBuild || (onWatch && this.meta.watchMode)) {
-        await copyAllAssetMap(assetMap, logger, { silent, timestamp: false });
+        if (copyAll) {
+          await copyAllAssetMap(assetMap, logger, {
+            verbose: isLogLevelEnabled(logLevel, 'verbose'),
+            timestamp: false,
+            ledger,
+            cache,
+            hooks,
+            dryRun,
+          });
+
+          for (const target of targets) {
+            await writeGeneratedFiles(target, logger, { timestamp: false, ledger, cache, hooks, dryRun });
+          }
+        } else {
+          // A created or renamed destination may be referenced by stylesheets.
+          const destsChanged = Array.from(dirtySources).some(
+            (file) =>
+              (dirtyOutputs.get(file) ?? []).map((output) => output.dest).join() !==
+              (assetMap.get(file) ?? []).map((output) => output.dest).join(),
+          );
+          if (destsChanged) markCssUrlsDirty();
+
+          // Only the dirty source files are copied (and their stale fingerprinted copies deleted).
+          const dirtyAssetMap: AssetMap = new Map();
+          dirtySources.forEach((file) => dirtyAssetMap.set(file, assetMap.get(file) ?? []));
+
+          await syncAssetMap(dirtyOutputs, dirtyAssetMap, logger, {
+            naming,
+            changed: dirtySources,
+            assetMap,
+            ledger,
+            cache,
+            hooks,
+            dryRun,
+          });
+
+          for (const target of dirtyGenerators) {
+            await writeGeneratedFiles(target, logger, { timestamp: false, ledger, cache, hooks, dryRun });
+          }
+        }
+
+        // Font faces snippets only change when a font is added or removed, unchanged ones are not rewritten.
+        for (const target of targets) {
+          await writeFontFaces(target, assetMap, logger, { timestamp: false, ledger, hooks, dryRun });
+        }
+
+        if (manifestOptions) {
+          await writeManifest(manifest, manifestOptions, logger, { timestamp: false, ledger, hooks, dryRun });
+        }
+
+        await writeIgnoreFiles(Array.from(assetDestSet), { name: rootName, gitignore, shopifyignore, dryRun }, logger);
       }
+
+      await reporter?.save();
+      reporter?.reset();
+
+      copyAll = false;
+      dirtySources.clear();
+      dirtyOutputs.clear();
+      dirtyGenerators.clear();
+
+      await ledger.save();
+      await cache.save();
+
+      // With `failOnError`, any file that could not be copied or deleted fails the build (with a non-zero exit code).
+      const error = failures?.flush();
+      if (error) throw error;
     },
 
-    // eslint-disable-next-line @typescript-eslint/require-await
-    async watchChange(fileChanged: string, { event }): Promise<void> {
-      // Check if the file changed is in our watched assets directory
-      // If it's not, we don't care about it.
-      if (!assetDirSet.has(dirname(fileChanged))) {
+    async watchChange(changedFile: string, { event: changeEvent }): Promise<void> {
+      // A section schema change is a change of its section, which the schema is attached to.
+      const schemaSection = getSchemaSection(changedFile, assetMap);
+      const fileChanged = schemaSection ?? changedFile;
+      const event = schemaSection ? 'update' : changeEvent;
+
+      const { matched } = matchTargets(targets, fileChanged);
+      if (!matched.length) return;
+
+      // Generated files are written again on the next closeBundle.
+      matched.filter(isGeneratorTarget).forEach((target) => dirtyGenerators.add(target));
+      if (matched.every(isGeneratorTarget)) return;
+
+      // A created file can collide with other files, or change the destination of colliding files (and
+      // rewritten stylesheets), so all targets are globbed again on the next build.
+      if (event === 'create' && !assetMap.has(fileChanged)) {
+        needsResolve = true;
         return;
       }
 
-      // Check if the file changed is in our asset map.
-      const asset = assetMap.get(fileChanged);
-      if (!asset) {
+      // Created and updated files are resolved and copied on the next build.
+      if (event !== 'delete') {
+        dirtySources.add(fileChanged);
         return;
       }
 
-      // If the asset is in our map, and the event is delete, we need to:
-      // - remove it from the asset map.
-      // - remove it from the asset files set.
-      if (event === 'delete') {
-        const normalizedDest = normalizePath(asset.dest);
-        if (existsSync(normalizedDest)) {
-          unlink(normalizedDest)
-            .then(() => {
-              const relativeDeleted = relative(themeRoot, asset.dest);
-              logEvent(event, relativeDeleted, logger);
-            })
-            .catch((error: unknown) => {
-              if (silent) return;
-              const message = error instanceof Error ? error.message : 'An unknown error occurred while deleting files';
-              logger.error(message);
-            });
-        }
+      dirtySources.delete(fileChanged);
+
+      // Check if the file changed is in our asset map.
+      const outputs = assetMap.get(fileChanged);
+      if (!outputs) {
+        return;
+      }
 
-        assetMap.delete(fileChanged);
-        assetFilesSet.delete(basename(fileChanged));
+      // A deleted colliding file can change the destination of the other colliding files, so the asset map
+      // is resolved again (exactly like on serve) and only the difference is applied: the deleted asset copy
+      // is removed, moved ones are copied. Otherwise, only the outputs of the deleted file are removed.
+      const previousAssetMap: AssetMap = new Map([[fileChanged, dirtyOutputs.get(fileChanged) ?? outputs]]);
+      let nextAssetMap: AssetMap = new Map();
+
+      if (collisionSourceSet.has(fileChanged)) {
+        previousAssetMap.clear();
+        assetMap.forEach((previousOutputs, src) => previousAssetMap.set(src, previousOutputs));
+        nextAssetMap = (await resolveAssetMap(targets, { publicDir, collisions, mode: 'build' })).assetMap;
+        needsResolve = true;
       }
+
+      await syncAssetMap(previousAssetMap, nextAssetMap, logger, { naming, ledger, cache, hooks, dryRun }).catch(
+        (error: unknown) => {
+          const message = error instanceof Error ? error.message : 'An unknown error occurred while deleting files';
+          logger.error(message);
+        },
+      );
+      await ledger.save();
+      await cache.save();
+
+      dirtyOutputs.delete(fileChanged);
+      removeAssetOutputs(fileChanged);
+
+      // Stylesheets referencing the deleted file are copied again on the next build.
+      markCssUrlsDirty();
     },
 
     async closeWatcher(): Promise<void> {
       // Copy all assets on close to make sure they're up to date.
-      await copyAllAssetMap(assetMap, logger, { silent, timestamp: false });
+      await copyAllAssetMap(assetMap, logger, {
+        verbose: isLogLevelEnabled(logLevel, 'verbose'),
+        timestamp: false,
+        ledger,
+        cache,
+        hooks,
+        dryRun,
+      });
+
+      for (const target of targets) {
+        await writeGeneratedFiles(target, logger, { timestamp: false, ledger, cache, hooks, dryRun });
+        await writeFontFaces(target, assetMap, logger, { timestamp: false, ledger, hooks, dryRun });
+      }
+
+      if (manifestOptions) {
+        await writeManifest(manifest, manifestOptions, logger, { timestamp: false, ledger, hooks, dryRun });
+      }
+
+      await ledger.save();
+      await cache.save();
     },
   };
 };
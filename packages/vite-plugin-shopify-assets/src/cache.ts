@@ -0,0 +1,146 @@
+import { dirname, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+
+import { normalizePath } from 'vite';
+
+export type ContentCache = {
+  /**
+   * Loads the entries recorded by previous runs.
+   */
+  load: () => Promise<void>;
+  /**
+   * Whether a destination file is still identical to the one written from `src`: the source file and
+   * the target options are the same as on the last write, and the destination was not modified since.
+   */
+  isFresh: (src: string, dest: string, signature: string) => Promise<boolean>;
+  /**
+   * Records a destination file, after it was written (or found identical) from `src`.
+   */
+  set: (src: string, dest: string, signature: string) => Promise<void>;
+  /**
+   * Returns the content a generated file was last written with (eg: the merged locale keys), if recorded.
+   */
+  getSnapshot: (file: string) => unknown;
+  /**
+   * Records the content a generated file was written with.
+   */
+  setSnapshot: (file: string, snapshot: unknown) => void;
+  /**
+   * Removes a deleted destination file from the cache.
+   */
+  delete: (dest: string) => void;
+  /**
+   * Persists the cache file, without the entries of deleted destination files, unless its content is unchanged.
+   */
+  save: () => Promise<void>;
+};
+
+type CacheEntry = {
+  src: string;
+  signature: string;
+  srcSize: number;
+  srcMtime: number;
+  destSize: number;
+  destMtime: number;
+};
+
+type CacheFile = {
+  version: number;
+  entries: Record<string, CacheEntry>;
+  snapshots?: Record<string, unknown>;
+};
+
+/**
+ * Creates the content cache, which remembers the source and destination stats of every copied file,
+ * so that unchanged files are not rewritten (Shopify CLI would upload them again). It also keeps a snapshot
+ * of the generated files merged with merchant edits (locales), to tell those edits apart.
+ *
+ * @param {string} [cacheFile] - Absolute path of the cache file, or `undefined` when disabled (in memory only).
+ * @param {boolean} [dryRun] - Whether the cache file should never be written.
+ * @returns The content cache.
+ */
+export const createContentCache = (cacheFile: string | undefined, dryRun: boolean = false): ContentCache => {
+  const entries = new Map<string, CacheEntry>();
+  const snapshots = new Map<string, unknown>();
+  let savedContent: string | undefined;
+
+  const toKey = (file: string) => normalizePath(relative(process.cwd(), file));
+
+  return {
+    async load() {
+      if (!cacheFile || !existsSync(cacheFile)) return;
+
+      savedContent = await readFile(cacheFile, 'utf-8');
+      const { version, entries: cacheEntries, snapshots: cacheSnapshots = {} } = JSON.parse(savedContent) as CacheFile;
+
+      entries.clear();
+      snapshots.clear();
+      if (version === 1) {
+        Object.entries(cacheEntries).forEach(([key, entry]) => entries.set(key, entry));
+        Object.entries(cacheSnapshots).forEach(([key, snapshot]) => snapshots.set(key, snapshot));
+      }
+    },
+
+    async isFresh(src, dest, signature) {
+      const entry = entries.get(toKey(dest));
+      if (!entry || entry.src !== toKey(src) || entry.signature !== signature || !existsSync(dest)) return false;
+
+      const [srcStats, destStats] = await Promise.all([stat(src), stat(dest)]);
+
+      return (
+        srcStats.size === entry.srcSize &&
+        srcStats.mtimeMs === entry.srcMtime &&
+        destStats.size === entry.destSize &&
+        destStats.mtimeMs === entry.destMtime
+      );
+    },
+
+    async set(src, dest, signature) {
+      const [srcStats, destStats] = await Promise.all([stat(src), stat(dest)]);
+
+      entries.set(toKey(dest), {
+        src: toKey(src),
+        signature,
+        srcSize: srcStats.size,
+        srcMtime: srcStats.mtimeMs,
+        destSize: destStats.size,
+        destMtime: destStats.mtimeMs,
+      });
+    },
+
+    getSnapshot(file) {
+      return snapshots.get(toKey(file));
+    },
+
+    setSnapshot(file, snapshot) {
+      snapshots.set(toKey(file), snapshot);
+    },
+
+    delete(dest) {
+      entries.delete(toKey(dest));
+    },
+
+    async save() {
+      if (!cacheFile || dryRun) return;
+
+      for (const key of entries.keys()) {
+        if (!existsSync(key)) entries.delete(key);
+      }
+      for (const key of snapshots.keys()) {
+        if (!existsSync(key)) snapshots.delete(key);
+      }
+
+      const sortedEntries = Object.fromEntries(Array.from(entries).sort(([a], [b]) => a.localeCompare(b)));
+      const cache: CacheFile = { version: 1, entries: sortedEntries };
+      if (snapshots.size)
+        cache.snapshots = Object.fromEntries(Array.from(snapshots).sort(([a], [b]) => a.localeCompare(b)));
+      const content = `${JSON.stringify(cache, null, 2)}\n`;
+      if (content === savedContent) return;
+
+      await mkdir(dirname(cacheFile), { recursive: true });
+      await writeFile(cacheFile, content);
+      savedContent = content;
+    },
+  };
+};
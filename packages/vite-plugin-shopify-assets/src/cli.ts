@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+import { relative, resolve } from 'node:path';
+import { existsSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+import pc from 'picocolors';
+import { createLogger, loadConfigFromFile } from 'vite';
+
+import { clean, list, sync, watch } from './api.js';
+import { CLI_CONFIG_FILES } from './constants.js';
+
+import type { Plugin, PluginOption, UserConfig } from 'vite';
+import type { PluginShopifyAssetsOptions } from './options.js';
+
+const HELP = `Usage: shopify-assets <command> [options]
+
+Commands:
+  sync     Copy all assets to the theme, and clean the stale ones
+  watch    Sync all assets, then keep watching the asset sources
+  clean    Delete the stale files, without copying anything
+  list     List all the files that would be written
+
+Options:
+  -c, --config <file>  Config file: a shopify-assets.config file exporting the plugin options,
+                       or a Vite config using the shopifyAssets() plugin (default: auto-detected)
+  -m, --mode <mode>    Vite mode, used to load the Vite config (default: development)
+      --dry-run        Log every action with its reason, without touching the disk
+      --verbose        Log every file, including the unchanged ones (ie: logLevel: 'verbose')
+      --json           Print the list as JSON (list only)
+  -h, --help           Show this help
+`;
+
+const COMMANDS = ['sync', 'watch', 'clean', 'list'];
+
+type ShopifyAssetsPlugin = Omit<Plugin, 'api'> & { api?: { options?: PluginShopifyAssetsOptions } };
+
+/**
+ * Returns the first `shopifyAssets()` plugin of a Vite config, whatever its nesting.
+ */
+const findPlugin = async (plugins: PluginOption[] = []): Promise<ShopifyAssetsPlugin | undefined> => {
+  for (const option of plugins) {
+    const plugin = await option;
+    if (!plugin) continue;
+
+    if (Array.isArray(plugin)) {
+      const nested = await findPlugin(plugin);
+      if (nested) return nested;
+      continue;
+    }
+
+    if ((plugin as ShopifyAssetsPlugin).name?.startsWith('vite-plugin-shopify-assets')) {
+      return plugin as ShopifyAssetsPlugin;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Loads the plugin options from a `shopify-assets.config` file, or from the `shopifyAssets()` plugin of the Vite config.
+ */
+const loadOptions = async (configFile: string | undefined, mode: string): Promise<PluginShopifyAssetsOptions> => {
+  const file = configFile ?? CLI_CONFIG_FILES.find((name) => existsSync(resolve(name)));
+  const loaded = await loadConfigFromFile({ command: 'serve', mode }, file && resolve(file));
+
+  if (!loaded) {
+    throw new Error('[shopify-assets] No config file found (shopify-assets.config or vite.config)');
+  }
+
+  const relativePath = relative(process.cwd(), loaded.path);
+  const config = loaded.config as UserConfig | PluginShopifyAssetsOptions;
+
+  // A standalone config file exports the plugin options directly.
+  if (!('plugins' in config)) {
+    return config as PluginShopifyAssetsOptions;
+  }
+
+  const plugin = await findPlugin(config.plugins);
+  if (!plugin?.api?.options) {
+    throw new Error(`[shopify-assets] No shopifyAssets() plugin found in ${relativePath}`);
+  }
+
+  return plugin.api.options;
+};
+
+const run = async (): Promise<void> => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      mode: { type: 'string', short: 'm', default: 'development' },
+      'dry-run': { type: 'boolean', default: false },
+      verbose: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(HELP);
+    return;
+  }
+
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`[shopify-assets] Unknown command "${command}"\n\n${HELP}`);
+  }
+
+  const loadedOptions = await loadOptions(values.config, values.mode ?? 'development');
+  const options: PluginShopifyAssetsOptions = {
+    ...loadedOptions,
+    dryRun: values['dry-run'] || loadedOptions.dryRun,
+    logLevel: values.verbose ? 'verbose' : loadedOptions.logLevel,
+  };
+  const logger = createLogger('info', { allowClearScreen: false });
+
+  switch (command) {
+    case 'sync':
+      await sync(options, logger);
+      break;
+
+    case 'watch': {
+      const server = await watch(options, { mode: values.mode });
+      const close = () => void server.close().then(() => process.exit());
+      process.once('SIGINT', close);
+      process.once('SIGTERM', close);
+      break;
+    }
+
+    case 'clean':
+      await clean(options, logger);
+      break;
+
+    case 'list': {
+      const entries = await list(options, logger);
+
+      if (values.json) {
+        process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+        break;
+      }
+
+      for (const { src, dest } of entries) {
+        process.stdout.write(
+          `${pc.dim(relative(process.cwd(), src))} ${pc.dim('->')} ${pc.green(relative(process.cwd(), dest))}\n`,
+        );
+      }
+      break;
+    }
+  }
+};
+
+run().catch((error: unknown) => {
+  process.stderr.write(`${pc.red(error instanceof Error ? error.message : String(error))}\n`);
+  process.exitCode = 1;
+});
@@ -1,2 +1,67 @@
 export const VITE_PUBLIC_DIRNAME = 'public';
 export const THEME_ASSETS_DIRNAME = 'assets';
+export const THEME_SNIPPETS_DIRNAME = 'snippets';
+export const THEME_LOCALES_DIRNAME = 'locales';
+export const THEME_SECTIONS_DIRNAME = 'sections';
+export const DEFAULT_HASH_PATTERN = '[name]-[hash].[ext]';
+export const DEFAULT_MANIFEST_JSON = 'assets/shopify-assets-manifest.json';
+export const DEFAULT_MANIFEST_SNIPPET = 'snippets/asset-url.liquid';
+export const DEFAULT_LEDGER_FILE = '.shopify-assets.json';
+export const DEFAULT_CACHE_FILE = 'node_modules/.cache/vite-plugin-shopify-assets/content.json';
+export const TEMP_DIR = 'node_modules/.cache/vite-plugin-shopify-assets/tmp';
+export const DEFAULT_DEBOUNCE = 100;
+export const DEFAULT_GITIGNORE_FILE = '.gitignore';
+export const SHOPIFY_IGNORE_FILE = '.shopifyignore';
+export const DEFAULT_REPORT_FILE = 'shopify-assets-report.json';
+export const DEFAULT_FONT_FACE_SNIPPET = 'snippets/font-faces.liquid';
+export const DEFAULT_SETTINGS_SCHEMA_FILE = 'config/settings_schema.json';
+
+// Shopify theme constraints, used to validate the resolved destination files.
+// Reference: https://shopify.dev/docs/storefronts/themes/architecture
+export const THEME_MAX_ASSET_SIZE = 20 * 1024 * 1024;
+export const THEME_MAX_LIQUID_SIZE = 256 * 1024;
+export const THEME_FILE_NAME_REGEX = /^[\w.-]+$/;
+export const THEME_ASSET_EXTENSIONS = [
+  'css',
+  'js',
+  'json',
+  'map',
+  'txt',
+  'liquid',
+  'svg',
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'webp',
+  'avif',
+  'ico',
+  'woff',
+  'woff2',
+  'ttf',
+  'otf',
+  'eot',
+  'mp4',
+  'webm',
+  'pdf',
+];
+export const THEME_FOLDER_EXTENSIONS: Record<string, string[]> = {
+  assets: THEME_ASSET_EXTENSIONS,
+  blocks: ['liquid'],
+  config: ['json'],
+  layout: ['liquid'],
+  locales: ['json'],
+  sections: ['liquid', 'json'],
+  snippets: ['liquid'],
+  templates: ['liquid', 'json'],
+  'templates/customers': ['liquid', 'json'],
+  'templates/metaobject': ['liquid', 'json'],
+};
+
+// Standalone config files of the `shopify-assets` CLI, looked up before the Vite config.
+export const CLI_CONFIG_FILES = [
+  'shopify-assets.config.js',
+  'shopify-assets.config.mjs',
+  'shopify-assets.config.ts',
+  'shopify-assets.config.mts',
+];
@@ -0,0 +1,97 @@
+import { basename, dirname, extname, relative, resolve } from 'node:path';
+
+import { normalizePath } from 'vite';
+
+import type { AssetMap } from './assets.js';
+import type { ResolvedTarget } from './options.js';
+
+/**
+ * Matches `url()` references (unquoted or quoted), and the quoted `@import` references.
+ */
+const CSS_URL_REGEX = /url\(\s*(['"]?)([^'")]+?)\1\s*\)|@import\s+(['"])([^'"]+)\3/g;
+
+/**
+ * References that are not relative to the stylesheet: absolute and protocol-relative URLs, `data:` URIs,
+ * root-relative paths and fragments (eg: SVG filters), or Liquid output.
+ */
+const EXTERNAL_URL_REGEX = /^(?:[a-z][a-z\d+.-]*:|\/|#|\{\{)/i;
+
+/**
+ * Whether the stylesheet references of an output are rewritten: only `.css` sources of a `cssUrls` target.
+ */
+export const hasCssUrls = (src: string, target: ResolvedTarget): boolean =>
+  !!target.cssUrls && extname(src).toLowerCase() === '.css';
+
+/**
+ * Returns the source files whose stylesheet references are rewritten, to copy them again once
+ * the destination of another file changes.
+ *
+ * @param {AssetMap} assetMap - The current asset map.
+ * @returns The source files.
+ */
+export const getCssUrlsSources = (assetMap: AssetMap): string[] =>
+  Array.from(assetMap)
+    .filter(([src, outputs]) => outputs.some((output) => hasCssUrls(src, output)))
+    .map(([src]) => src);
+
+/**
+ * Rewrites the relative `url()` and `@import` references of a stylesheet to the destination of the
+ * referenced files, looked up in the asset map. The output in the same folder as the stylesheet is preferred.
+ *
+ * @param {string} content - Stylesheet content.
+ * @param {string} src - Absolute path of the stylesheet source.
+ * @param {string} dest - Absolute path of the stylesheet destination.
+ * @param {AssetMap} assetMap - The asset map, with all the copied files.
+ * @param {boolean} liquid - Whether references are rendered with the `asset_url` filter.
+ * @returns The rewritten content, and the references pointing to files no target copies.
+ */
+export const rewriteCssUrls = (
+  content: string,
+  src: string,
+  dest: string,
+  assetMap: AssetMap,
+  liquid: boolean,
+): { content: string; unresolved: string[] } => {
+  const unresolved: string[] = [];
+
+  const rewriteUrl = (url: string): string | undefined => {
+    if (EXTERNAL_URL_REGEX.test(url)) return undefined;
+
+    // Query strings and fragments are kept (eg: `font.eot?#iefix`).
+    const suffixIndex = url.search(/[?#]/);
+    const path = suffixIndex < 0 ? url : url.slice(0, suffixIndex);
+    const suffix = suffixIndex < 0 ? '' : url.slice(suffixIndex);
+    const referenced = normalizePath(resolve(dirname(src), decodeURI(path)));
+    const outputs = assetMap.get(referenced) ?? [];
+    const output = outputs.find((_output) => dirname(_output.dest) === dirname(dest)) ?? outputs[0];
+
+    if (!output) {
+      if (!unresolved.includes(url)) unresolved.push(url);
+      return undefined;
+    }
+
+    // Liquid stylesheets are compiled by Shopify, and still served under their `.css` name. The `asset_url`
+    // filter adds its own query string, so only the fragment is kept.
+    if (liquid) {
+      const fragment = suffix.includes('#') ? suffix.slice(suffix.indexOf('#')) : '';
+      return `{{ '${basename(output.dest).replace(/\.liquid$/, '')}' | asset_url }}${fragment}`;
+    }
+
+    return `${normalizePath(relative(dirname(dest), output.dest.replace(/\.css\.liquid$/, '.css')))}${suffix}`;
+  };
+
+  const rewritten = content.replace(
+    CSS_URL_REGEX,
+    (match, urlQuote: string | undefined, url: string | undefined, importQuote: string, importUrl: string) => {
+      if (url !== undefined) {
+        const rewrittenUrl = rewriteUrl(url);
+        return rewrittenUrl ? `url(${urlQuote}${rewrittenUrl}${urlQuote})` : match;
+      }
+
+      const rewrittenUrl = rewriteUrl(importUrl);
+      return rewrittenUrl ? `@import ${importQuote}${rewrittenUrl}${importQuote}` : match;
+    },
+  );
+
+  return { content: rewritten, unresolved };
+};
@@ -0,0 +1,54 @@
+import { relative } from 'node:path';
+
+import type { AssetHooks } from './options.js';
+
+type AssetFailure = {
+  src?: string;
+  dest: string;
+  message: string;
+};
+
+export type FailureCollector = {
+  /**
+   * Lifecycle hooks recording every file that could not be copied, written or deleted.
+   */
+  hooks: AssetHooks;
+  /**
+   * Returns an error listing all the recorded failures (or `undefined` when there is none), and forgets them.
+   */
+  flush: () => Error | undefined;
+};
+
+/**
+ * Creates the failure collector used by the `failOnError` option, so that all copy and delete errors
+ * are reported at once, with their source and destination, instead of only being logged.
+ *
+ * @returns The failure collector.
+ */
+export const createFailureCollector = (): FailureCollector => {
+  const failures: AssetFailure[] = [];
+
+  return {
+    hooks: {
+      onError: (error, { src, dest }) => {
+        failures.push({ src, dest, message: error.message });
+      },
+    },
+
+    flush() {
+      if (!failures.length) return undefined;
+
+      const list = failures.map(({ src, dest, message }) => {
+        const paths = src
+          ? `${relative(process.cwd(), src)} -> ${relative(process.cwd(), dest)}`
+          : relative(process.cwd(), dest);
+        return `  - ${paths}: ${message}`;
+      });
+      failures.length = 0;
+
+      return new Error(
+        `[shopify-assets] ${list.length} file${list.length > 1 ? 's' : ''} could not be copied or deleted:\n${list.join('\n')}`,
+      );
+    },
+  };
+};
@@ -0,0 +1,207 @@
+import { parse, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+
+import { flattenAssetMap } from './assets.js';
+import { logError, toError, writeFileIfChanged } from './utils.js';
+
+import type { Logger } from 'vite';
+import type { AssetMap } from './assets.js';
+import type { AssetHooks, FontFaceDescriptor, ResolvedFontFaceOptions, ResolvedTarget } from './options.js';
+import type { Ledger } from './ledger.js';
+
+type FontFace = {
+  family: string;
+  weight: string;
+  style: string;
+  /**
+   * File names of the destination files, in format order (most modern first).
+   */
+  files: string[];
+};
+
+/**
+ * CSS `format()` of each font file extension, in the order they are listed in `src`.
+ */
+const FONT_FORMATS: Record<string, string> = {
+  woff2: 'woff2',
+  woff: 'woff',
+  ttf: 'truetype',
+  otf: 'opentype',
+  eot: 'embedded-opentype',
+  svg: 'svg',
+};
+
+const FONT_WEIGHTS: Record<string, string> = {
+  hairline: '100',
+  thin: '100',
+  extralight: '200',
+  ultralight: '200',
+  light: '300',
+  book: '400',
+  normal: '400',
+  regular: '400',
+  medium: '500',
+  semibold: '600',
+  demibold: '600',
+  bold: '700',
+  extrabold: '800',
+  ultrabold: '800',
+  black: '900',
+  heavy: '900',
+  variable: '100 900',
+};
+
+const FONT_STYLES = ['italic', 'oblique'];
+
+/**
+ * Guesses the family, weight and style of a font from its file name, using the usual naming conventions:
+ * `Inter-BoldItalic`, `inter_700_italic`, `OpenSans-Regular`, `Roboto-Variable`.
+ *
+ * @param {string} name - File name, without extension.
+ * @returns The font descriptor (weight `400` and style `normal` when not found in the name).
+ */
+export const parseFontName = (name: string): Required<FontFaceDescriptor> => {
+  const tokens = name.split(/[-_\s]+/).filter(Boolean);
+  let weight: string | undefined;
+  let style: string | undefined;
+
+  // Weight and style tokens are read from the end of the name, the remaining tokens are the family.
+  while (tokens.length > 1) {
+    const token = (tokens[tokens.length - 1] ?? '').toLowerCase();
+    const tokenStyle = FONT_STYLES.find((_style) => token.endsWith(_style));
+    const tokenWeight = tokenStyle ? token.slice(0, -tokenStyle.length) : token;
+
+    if (tokenStyle && !style && (!tokenWeight || FONT_WEIGHTS[tokenWeight] || /^[1-9]00$/.test(tokenWeight))) {
+      style = tokenStyle;
+      weight = tokenWeight ? (FONT_WEIGHTS[tokenWeight] ?? tokenWeight) : weight;
+    } else if (!weight && (FONT_WEIGHTS[token] || /^[1-9]00$/.test(token))) {
+      weight = FONT_WEIGHTS[token] ?? token;
+    } else {
+      break;
+    }
+
+    tokens.pop();
+  }
+
+  return { family: tokens.join(' '), weight: weight ?? '400', style: style ?? 'normal' };
+};
+
+/**
+ * Groups the font files of a target by family, weight and style. `fontFace.fonts` entries
+ * (keyed by source file name, without extension) override the naming conventions.
+ *
+ * @param {Array<[string, ResolvedTarget]>} outputs - Source files and resolved outputs of the font target.
+ * @param {ResolvedFontFaceOptions} fontFace - Resolved `target.fontFace` options.
+ * @returns The font faces, sorted by family, weight and style.
+ */
+export const getFontFaces = (
+  outputs: Array<[string, ResolvedTarget]>,
+  fontFace: ResolvedFontFaceOptions,
+): FontFace[] => {
+  const faces = new Map<string, FontFace>();
+
+  for (const [src, output] of outputs) {
+    const { base, ext } = parse(output.dest);
+    if (!FONT_FORMATS[ext.slice(1).toLowerCase()]) continue;
+
+    const sourceName = parse(src).name;
+    const descriptor = { ...parseFontName(sourceName), ...fontFace.fonts[sourceName] };
+    const key = `${descriptor.family}|${descriptor.weight}|${descriptor.style}`;
+
+    const face = faces.get(key) ?? { ...descriptor, weight: String(descriptor.weight), files: [] };
+    face.files.push(base);
+    faces.set(key, face);
+  }
+
+  const formatOrder = Object.keys(FONT_FORMATS);
+  const getFormatIndex = (file: string) => formatOrder.indexOf(parse(file).ext.slice(1).toLowerCase());
+
+  return Array.from(faces.values())
+    .map((face) => ({ ...face, files: face.files.sort((a, b) => getFormatIndex(a) - getFormatIndex(b)) }))
+    .sort(
+      (a, b) => a.family.localeCompare(b.family) || a.weight.localeCompare(b.weight) || a.style.localeCompare(b.style),
+    );
+};
+
+/**
+ * Builds the font faces snippet: preload tags (optional) and a `<style>` element with the `@font-face` declarations.
+ *
+ * @param {FontFace[]} faces - Font faces of the target.
+ * @param {ResolvedFontFaceOptions} fontFace - Resolved `target.fontFace` options.
+ * @returns The snippet content.
+ */
+export const buildFontFaces = (faces: FontFace[], fontFace: ResolvedFontFaceOptions): string => {
+  const assetUrl = (file: string) => `{{ '${file}' | asset_url }}`;
+
+  const shouldPreload = (face: FontFace) =>
+    fontFace.preload === true ||
+    (Array.isArray(fontFace.preload) &&
+      fontFace.preload.some((name) => name === face.family || face.files.some((file) => parse(file).name === name)));
+
+  const preloads = faces.filter(shouldPreload).map(({ files: [file = ''] }) => {
+    const format = FONT_FORMATS[parse(file).ext.slice(1).toLowerCase()] ?? '';
+    return `<link rel="preload" href="${assetUrl(file)}" as="font" type="font/${format}" crossorigin>`;
+  });
+
+  const declarations = faces.map((face) => {
+    const src = face.files
+      .map((file) => `url("${assetUrl(file)}") format("${FONT_FORMATS[parse(file).ext.slice(1).toLowerCase()]}")`)
+      .join(',\n      ');
+
+    return `  @font-face {
+    font-family: "${face.family}";
+    src: ${src};
+    font-weight: ${face.weight};
+    font-style: ${face.style};
+    font-display: ${fontFace.display};
+  }`;
+  });
+
+  return `{% comment %}
+  Font faces generated by vite-plugin-shopify-assets - do not edit this file directly.
+  Render it once in the <head> of your layout: {% render '${parse(fontFace.file).name}' %}
+{% endcomment %}
+${preloads.map((preload) => `${preload}\n`).join('')}<style>
+${declarations.join('\n\n')}
+</style>
+`;
+};
+
+/**
+ * Writes the font faces snippet of a font target, from its current outputs in the asset map.
+ *
+ * @param {ResolvedTarget} target - Resolved target, with `fontFace` options.
+ * @param {AssetMap} assetMap - The current asset map.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options, the ownership ledger and the lifecycle hooks.
+ */
+export const writeFontFaces = async (
+  target: ResolvedTarget,
+  assetMap: AssetMap,
+  logger: Logger,
+  options: {
+    timestamp?: boolean;
+    ledger?: Ledger;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  } = {
+    timestamp: false,
+  },
+): Promise<void> => {
+  if (!target.fontFace) return;
+
+  const { timestamp, ledger, hooks, dryRun } = options;
+  const { file } = target.fontFace;
+
+  // The outputs of a target keep its `src` glob pattern.
+  const outputs = flattenAssetMap(assetMap).filter(([, output]) => output.src === target.src);
+  const content = buildFontFaces(getFontFaces(outputs, target.fontFace), target.fontFace);
+
+  await writeFileIfChanged(file, content, logger, { timestamp, ledger, target, hooks, dryRun }).catch(
+    async (error: unknown) => {
+      logError(`could not create ${relative(process.cwd(), file)}`, logger, timestamp);
+      if (error instanceof Error) logger.error(error.message);
+      await hooks?.onError?.(toError(error), { type: existsSync(file) ? 'update' : 'create', dest: file, target });
+    },
+  );
+};
@@ -0,0 +1,74 @@
+import { getSpriteFiles, writeSprite } from './sprite.js';
+import { getLocaleFiles, writeLocales } from './locales.js';
+import { writeSettingsSchema } from './settings.js';
+
+import type { Logger } from 'vite';
+import type { AssetHooks, ResolvedManifestOptions, ResolvedTarget } from './options.js';
+import type { Ledger } from './ledger.js';
+import type { ContentCache } from './cache.js';
+
+/**
+ * Returns the absolute paths of the files written by a generator target (sprite, locales, settings schema).
+ *
+ * @param {ResolvedTarget} target - Resolved target.
+ * @returns The generated files, or an empty array when the target copies its sources.
+ */
+export const getGeneratedFiles = async (target: ResolvedTarget): Promise<string[]> => {
+  if (target.sprite) return getSpriteFiles(target.sprite);
+  if (target.locales) return getLocaleFiles(target);
+  if (target.settingsSchema) return [target.settingsSchema.file];
+
+  return [];
+};
+
+/**
+ * Returns the absolute paths of the files written from several sources: the files of generator targets, the font
+ * faces snippets and the asset manifest. Along with the destinations of the asset map, these are all the files
+ * written by the plugin, which cleanup always keeps.
+ *
+ * @param {ResolvedTarget[]} targets - Resolved targets.
+ * @param {ResolvedManifestOptions} [manifest] - Resolved `manifest` plugin options.
+ * @returns The generated files.
+ */
+export const getGeneratedOutputs = async (
+  targets: ResolvedTarget[],
+  manifest?: ResolvedManifestOptions,
+): Promise<string[]> => {
+  const files: string[] = [];
+
+  for (const target of targets) {
+    files.push(...(await getGeneratedFiles(target)));
+    if (target.fontFace) files.push(target.fontFace.file);
+  }
+
+  for (const manifestFile of [manifest?.json, manifest?.snippet]) {
+    if (manifestFile) files.push(manifestFile);
+  }
+
+  return files;
+};
+
+/**
+ * Writes the files of a generator target from all of its sources. Does nothing for other targets.
+ *
+ * @param {ResolvedTarget} target - Resolved target.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options, the ownership ledger, the content cache and the lifecycle hooks.
+ */
+export const writeGeneratedFiles = async (
+  target: ResolvedTarget,
+  logger: Logger,
+  options: {
+    timestamp?: boolean;
+    ledger?: Ledger;
+    cache?: ContentCache;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  } = {
+    timestamp: false,
+  },
+): Promise<void> => {
+  await writeSprite(target, logger, options);
+  await writeLocales(target, logger, options);
+  await writeSettingsSchema(target, logger, options);
+};
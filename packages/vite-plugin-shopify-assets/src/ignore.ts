@@ -0,0 +1,204 @@
+import { dirname, join, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+
+import picomatch from 'picomatch';
+import { normalizePath } from 'vite';
+
+import { logWarn, writeFileIfChanged } from './utils.js';
+import { SHOPIFY_IGNORE_FILE } from './constants.js';
+
+import type { Logger } from 'vite';
+import type { ResolvedPluginShopifyAssetsOptions } from './options.js';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Returns the first and last lines of the block managed by the plugin, named after the theme root
+ * when `themeRoot` lists several theme roots (each one has its own block).
+ */
+const getBlockMarkers = (name?: string): [string, string] => {
+  const id = `vite-plugin-shopify-assets${name ? `:${name}` : ''}`;
+  return [`# >>> ${id} (generated files, do not edit)`, `# <<< ${id}`];
+};
+
+/**
+ * Matches a block managed by the plugin, with its trailing line break: the block of a theme root,
+ * or any block when no marker is given.
+ */
+const getBlockRegex = (markers?: [string, string]): RegExp => {
+  const start = markers ? escapeRegExp(markers[0]) : '# >>> vite-plugin-shopify-assets\\S*';
+  const end = markers ? escapeRegExp(markers[1]) : '# <<< vite-plugin-shopify-assets\\S*';
+  return new RegExp(`${start}.*\\r?\\n[\\s\\S]*?${end}[ \\t]*(?:\\r?\\n|$)`, markers ? '' : 'g');
+};
+
+/**
+ * The pending write of each ignore file: the theme roots share the same `.gitignore`, and their hooks run in parallel.
+ */
+const ignoreFileWrites = new Map<string, Promise<void>>();
+
+/**
+ * Escapes the glob characters of a file path, so that an ignore file entry only matches that file.
+ */
+const escapeGlob = (file: string): string => file.replace(/[*?[\]!#\\]/g, '\\$&');
+
+/**
+ * Returns the patterns of a `.shopifyignore` file, without comments and without the block managed by the plugin.
+ *
+ * @param {string} content - Content of the `.shopifyignore` file.
+ * @returns The patterns, in order.
+ */
+export const parseShopifyIgnore = (content: string): string[] =>
+  content
+    .replace(/\r\n/g, '\n')
+    .replace(getBlockRegex(), '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+
+/**
+ * Creates a matcher of theme files (relative to `themeRoot`) for `.shopifyignore` patterns, the way Shopify CLI
+ * reads them: globs (a pattern without `/` matches file names at any depth, and a folder matches all of its files),
+ * or regular expressions between slashes (eg: `/\.png$/`).
+ *
+ * @param {string[]} patterns - Patterns of the `.shopifyignore` file.
+ * @returns Returns the first pattern matching a file, or `undefined` when the file is not ignored.
+ */
+export const createShopifyIgnoreMatcher = (patterns: string[]): ((file: string) => string | undefined) => {
+  const matchers = patterns.map((pattern): [string, (file: string) => boolean] => {
+    const regex = /^\/(.+)\/$/.exec(pattern)?.[1];
+    if (regex) {
+      const expression = new RegExp(regex);
+      return [pattern, (file) => expression.test(file)];
+    }
+
+    const glob = pattern.replace(/^\//, '').replace(/\/$/, '');
+    const anyDepthGlob = glob.includes('/') ? glob : `**/${glob}`;
+    const isMatch = picomatch([anyDepthGlob, `${anyDepthGlob}/**`], { dot: true });
+    return [pattern, (file) => isMatch(file)];
+  });
+
+  return (file) => matchers.find(([, isMatch]) => isMatch(file))?.[0];
+};
+
+/**
+ * Warns about the files matching the `.shopifyignore` file of the theme, as Shopify CLI never uploads them.
+ *
+ * @param {string[]} files - Absolute paths of the files written by the plugin.
+ * @param {string} themeRoot - Resolved theme root directory.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options.
+ */
+export const reportShopifyIgnored = async (
+  files: string[],
+  themeRoot: string,
+  logger: Logger,
+  options: {
+    timestamp?: boolean;
+  } = {},
+): Promise<void> => {
+  const ignoreFile = join(themeRoot, SHOPIFY_IGNORE_FILE);
+  if (!files.length || !existsSync(ignoreFile)) return;
+
+  const match = createShopifyIgnoreMatcher(parseShopifyIgnore(await readFile(ignoreFile, 'utf-8')));
+
+  for (const file of files) {
+    const relativePath = normalizePath(relative(themeRoot, file));
+    const pattern = match(relativePath);
+    if (!pattern) continue;
+
+    logWarn(
+      `${relativePath} matches "${pattern}" in ${SHOPIFY_IGNORE_FILE} - Shopify CLI will not upload it`,
+      logger,
+      options.timestamp,
+    );
+  }
+};
+
+/**
+ * Replaces the block managed by the plugin in the content of an ignore file (or appends it),
+ * keeping all the other lines. The block is removed when there is no entry.
+ *
+ * @param {string} content - Content of the ignore file.
+ * @param {string[]} entries - Entries of the block.
+ * @param {string} [name] - Name of the theme root, when `themeRoot` lists several theme roots.
+ * @returns The content of the ignore file.
+ */
+export const updateIgnoreBlock = (content: string, entries: string[], name?: string): string => {
+  const [start, end] = getBlockMarkers(name);
+  const blockRegex = getBlockRegex([start, end]);
+  const block = entries.length ? `${[start, ...entries, end].join('\n')}\n` : '';
+  if (blockRegex.test(content)) return content.replace(blockRegex, block);
+  if (!block) return content;
+
+  return content && !content.endsWith('\n') ? `${content}\n\n${block}` : `${content}${content ? '\n' : ''}${block}`;
+};
+
+/**
+ * Lists the files written by the plugin in the managed block of an ignore file (`.gitignore` or `.shopifyignore`),
+ * relative to its folder. The ignore file is only written when the list changes.
+ *
+ * @param {string} ignoreFile - Absolute path of the ignore file.
+ * @param {string[]} files - Absolute paths of the files written by the plugin.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options, the name of the theme root, and whether the entries are anchored to the ignore file folder (`.gitignore`).
+ */
+export const writeIgnoreBlock = async (
+  ignoreFile: string,
+  files: string[],
+  logger: Logger,
+  options: {
+    name?: string;
+    anchored?: boolean;
+    timestamp?: boolean;
+    dryRun?: boolean;
+  } = {},
+): Promise<void> => {
+  const { name, anchored, timestamp, dryRun } = options;
+
+  // Files outside of the ignore file folder cannot be listed.
+  const entries = Array.from(new Set(files))
+    .map((file) => normalizePath(relative(dirname(ignoreFile), file)))
+    .filter((file) => !file.startsWith('../'))
+    .sort()
+    .map((file) => `${anchored ? '/' : ''}${escapeGlob(file)}`);
+
+  const write = async () => {
+    const content = existsSync(ignoreFile) ? await readFile(ignoreFile, 'utf-8') : '';
+    const updated = updateIgnoreBlock(content, entries, name);
+    if (updated === content) return;
+
+    // Ignore files are not owned by the plugin (they are never cleaned), so they are not added to the ledger.
+    await writeFileIfChanged(ignoreFile, updated, logger, { timestamp, dryRun });
+  };
+
+  const pending = (ignoreFileWrites.get(ignoreFile) ?? Promise.resolve()).then(write);
+  ignoreFileWrites.set(
+    ignoreFile,
+    pending.catch(() => undefined),
+  );
+  await pending;
+};
+
+/**
+ * Updates the managed blocks of the ignore files enabled by the `gitignore` and `shopifyignore` options.
+ *
+ * @param {string[]} files - Absolute paths of the files written by the plugin.
+ * @param {object} options - Resolved `name` (of the theme root), `gitignore`, `shopifyignore` and `dryRun` plugin options.
+ * @param {Logger} logger - Vite logger.
+ * @param {boolean} [timestamp] - Whether to log the timestamp.
+ */
+export const writeIgnoreFiles = async (
+  files: string[],
+  {
+    name,
+    gitignore,
+    shopifyignore,
+    dryRun,
+  }: Pick<ResolvedPluginShopifyAssetsOptions, 'name' | 'gitignore' | 'shopifyignore' | 'dryRun'>,
+  logger: Logger,
+  timestamp: boolean = false,
+): Promise<void> => {
+  if (gitignore) await writeIgnoreBlock(gitignore, files, logger, { name, anchored: true, timestamp, dryRun });
+  if (shopifyignore) await writeIgnoreBlock(shopifyignore, files, logger, { name, timestamp, dryRun });
+};
@@ -6,12 +6,45 @@ import type { Plugin } from 'vite';
 import type { PluginShopifyAssetsOptions } from './options.js';
 
 const shopifyAssets = (options: PluginShopifyAssetsOptions): Plugin[] => {
-  const resolvedOptions = resolveOptions(options);
+  // One build and serve plugin per theme root, so that each one keeps its own asset map, ledger and cache.
+  const plugins = resolveOptions(options).flatMap((resolvedOptions) => [
+    buildPlugin(resolvedOptions),
+    servePlugin(resolvedOptions),
+  ]);
 
-  return [buildPlugin(resolvedOptions), servePlugin(resolvedOptions)];
+  // The plugin options are exposed to the `shopify-assets` CLI, so it always uses the same config as Vite.
+  return plugins.map((plugin) => ({
+    ...plugin,
+    api: { options },
+  }));
 };
 
+export { sync, watch, clean, list } from './api.js';
+
 export type { PluginShopifyAssetsOptions };
-export type { RenameFunc, Target } from './options.js';
+export type { AssetListEntry } from './api.js';
+export type { AssetMap } from './assets.js';
+export type { BuildReport, ReportAction, ReportErrorEntry, ReportFileEntry, ReportTargetEntry } from './report.js';
+export type { ActionReason } from './utils.js';
+export type {
+  AssetErrorHook,
+  AssetEvent,
+  AssetHook,
+  CollisionStrategy,
+  CssUrlsOptions,
+  FontFaceDescriptor,
+  FontFaceOptions,
+  LocalesOptions,
+  LogLevel,
+  ManifestOptions,
+  RenameFunc,
+  SettingsSchemaOptions,
+  SpriteOptions,
+  SvgSnippetOptions,
+  Target,
+  ThemeRootOptions,
+  TransformContext,
+  TransformFunc,
+} from './options.js';
 
 export default shopifyAssets;
@@ -0,0 +1,118 @@
+import { relative, resolve } from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile, writeFile } from 'node:fs/promises';
+
+import picomatch from 'picomatch';
+import { normalizePath } from 'vite';
+
+export type Ledger = {
+  /**
+   * Loads the files recorded by previous runs.
+   */
+  load: () => Promise<void>;
+  /**
+   * Records a file created by the plugin (files that already existed are never recorded),
+   * or a file emitted by the Vite build (with `bundle`).
+   */
+  add: (file: string, bundle?: boolean) => void;
+  /**
+   * Removes a deleted file from the ledger.
+   */
+  delete: (file: string) => void;
+  /**
+   * Whether the plugin is allowed to delete a file: it must be recorded in the ledger (when enabled)
+   * and must not match any `preserve` glob.
+   */
+  canDelete: (file: string) => boolean;
+  /**
+   * Returns the absolute paths of the recorded files created by the plugin (not the ones emitted by the Vite build).
+   */
+  files: () => string[];
+  /**
+   * Persists the ledger file, unless its content is unchanged.
+   */
+  save: () => Promise<void>;
+};
+
+type LedgerFile = {
+  version: number;
+  files: string[];
+  /**
+   * The recorded files emitted by the Vite build, cleaned by the build only.
+   */
+  bundle?: string[];
+};
+
+/**
+ * Creates the ownership ledger, which keeps track of every file created by the plugin,
+ * so that cleanup never deletes files added by other means (theme editor, apps, etc.).
+ *
+ * @param {string} themeRoot - Resolved theme root directory.
+ * @param {string} [ledgerFile] - Absolute path of the ledger file, or `undefined` when disabled.
+ * @param {string[]} preserve - Glob patterns of files that must never be deleted, relative to `themeRoot`.
+ * @param {boolean} [dryRun] - Whether the ledger file should never be written.
+ * @returns The ledger.
+ */
+export const createLedger = (
+  themeRoot: string,
+  ledgerFile: string | undefined,
+  preserve: string[],
+  dryRun: boolean = false,
+): Ledger => {
+  const files = new Set<string>();
+  const bundleFiles = new Set<string>();
+  const isPreserved = preserve.length ? picomatch(preserve, { dot: true }) : () => false;
+  let savedContent: string | undefined;
+
+  const toKey = (file: string) => normalizePath(relative(themeRoot, file));
+
+  return {
+    async load() {
+      if (!ledgerFile || !existsSync(ledgerFile)) return;
+
+      savedContent = await readFile(ledgerFile, 'utf-8');
+      const { files: ledgerFiles, bundle = [] } = JSON.parse(savedContent) as LedgerFile;
+
+      files.clear();
+      bundleFiles.clear();
+      ledgerFiles.forEach((file) => files.add(file));
+      bundle.forEach((file) => bundleFiles.add(file));
+    },
+
+    add(file, bundle = false) {
+      const key = toKey(file);
+      files.add(key);
+      if (bundle) bundleFiles.add(key);
+      else bundleFiles.delete(key);
+    },
+
+    delete(file) {
+      files.delete(toKey(file));
+      bundleFiles.delete(toKey(file));
+    },
+
+    canDelete(file) {
+      const key = toKey(file);
+      return !isPreserved(key) && (!ledgerFile || files.has(key));
+    },
+
+    files() {
+      return Array.from(files)
+        .filter((key) => !bundleFiles.has(key))
+        .map((key) => normalizePath(resolve(themeRoot, key)));
+    },
+
+    async save() {
+      if (!ledgerFile || dryRun) return;
+
+      const ledger: LedgerFile = { version: 1, files: Array.from(files).sort() };
+      if (bundleFiles.size) ledger.bundle = Array.from(bundleFiles).sort();
+
+      const content = `${JSON.stringify(ledger, null, 2)}\n`;
+      if (content === savedContent) return;
+
+      await writeFile(ledgerFile, content);
+      savedContent = content;
+    },
+  };
+};
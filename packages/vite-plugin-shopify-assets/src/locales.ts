@@ -0,0 +1,238 @@
+import { basename, join, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+
+import fg from 'fast-glob';
+import { normalizePath } from 'vite';
+
+import { logError, logWarn, toError, writeFileIfChanged } from './utils.js';
+
+import type { Logger } from 'vite';
+import type { AssetHooks, ResolvedTarget } from './options.js';
+import type { Ledger } from './ledger.js';
+import type { ContentCache } from './cache.js';
+
+type LocaleTree = { [key: string]: unknown };
+
+type LocaleConflict = {
+  /**
+   * Dotted path of the conflicting key.
+   */
+  key: string;
+  /**
+   * Fragment whose value is used, and the fragment whose value is ignored.
+   */
+  sources: [string, string];
+};
+
+const LOCALE_REGEX = /^[a-z]{2,3}(?:-[a-z\d]+)*$/i;
+
+const isLocaleTree = (value: unknown): value is LocaleTree =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toRelative = (file: string) => normalizePath(relative(process.cwd(), file));
+
+/**
+ * Returns the theme locale file name of a JSON fragment, from the locale before its extension:
+ * `counter.en.json` -> `en.default.json` (default locale), `counter.fr.json` -> `fr.json`,
+ * `counter.en.schema.json` -> `en.default.schema.json`. The fragment name must have a name before its locale,
+ * so that other JSON files (eg: `faq.json`) are never read as a locale.
+ *
+ * @param {string} file - Path of the JSON fragment.
+ * @param {string} defaultLocale - The default locale of the theme.
+ * @returns The locale file name, or `undefined` when the fragment name has no valid locale.
+ */
+export const getLocaleFileName = (file: string, defaultLocale: string): string | undefined => {
+  const tokens = basename(file, '.json').split('.');
+  const schema = tokens[tokens.length - 1] === 'schema';
+  if (schema) tokens.pop();
+  if (tokens[tokens.length - 1] === 'default') tokens.pop();
+
+  const locale = tokens[tokens.length - 1];
+  if (tokens.length < 2 || !locale || !LOCALE_REGEX.test(locale)) return undefined;
+
+  return `${locale}${locale === defaultLocale ? '.default' : ''}${schema ? '.schema' : ''}.json`;
+};
+
+/**
+ * Globs the JSON fragments of a locales target, grouped by the absolute path of their locale file.
+ */
+const getLocaleFragments = async (target: ResolvedTarget): Promise<Map<string, string[]>> => {
+  const fragments = new Map<string, string[]>();
+  if (!target.locales) return fragments;
+
+  for (const file of (await fg(normalizePath(target.src), { ignore: target.ignore })).sort()) {
+    const fileName = getLocaleFileName(file, target.locales.defaultLocale);
+    if (!fileName) continue;
+
+    const localeFile = normalizePath(join(target.dest, fileName));
+    fragments.set(localeFile, [...(fragments.get(localeFile) ?? []), file]);
+  }
+
+  return fragments;
+};
+
+/**
+ * Returns the absolute paths of the locale files generated by a locales target.
+ */
+export const getLocaleFiles = async (target: ResolvedTarget): Promise<string[]> =>
+  Array.from((await getLocaleFragments(target)).keys());
+
+/**
+ * Deep-merges JSON fragments, in order. A key set by several fragments keeps its first value.
+ *
+ * @param {Array<[string, LocaleTree]>} fragments - Source files and their parsed content.
+ * @returns The merged keys, and the conflicting keys.
+ */
+export const mergeLocaleFragments = (
+  fragments: Array<[string, LocaleTree]>,
+): { locale: LocaleTree; conflicts: LocaleConflict[] } => {
+  const locale: LocaleTree = {};
+  const conflicts: LocaleConflict[] = [];
+  const keySources = new Map<string, string>();
+
+  const merge = (into: LocaleTree, from: LocaleTree, src: string, path: string[]) => {
+    for (const [key, value] of Object.entries(from)) {
+      const keyPath = [...path, key];
+      const dottedKey = keyPath.join('.');
+      const current = into[key];
+
+      if (current === undefined) {
+        into[key] = isLocaleTree(value) ? {} : value;
+        keySources.set(dottedKey, src);
+        if (isLocaleTree(value)) merge(into[key] as LocaleTree, value, src, keyPath);
+      } else if (isLocaleTree(current) && isLocaleTree(value)) {
+        merge(current, value, src, keyPath);
+      } else if (JSON.stringify(current) !== JSON.stringify(value)) {
+        conflicts.push({ key: dottedKey, sources: [keySources.get(dottedKey) ?? '', src] });
+      }
+    }
+  };
+
+  for (const [src, fragment] of fragments) merge(locale, fragment, src, []);
+
+  return { locale, conflicts };
+};
+
+/**
+ * Merges the generated keys with the existing locale file, preserving the merchant edits:
+ * - keys edited since they were last generated keep their current value,
+ * - keys only found in the existing file are kept, unless they were generated before (removed from the fragments).
+ *
+ * Keys without a previous snapshot (eg: on a fresh clone, or with `cache: false`) keep their existing value, as it may
+ * be a merchant edit: only the missing keys are added.
+ *
+ * @param {LocaleTree} generated - Keys merged from the fragments.
+ * @param {LocaleTree} [existing] - Keys of the existing locale file.
+ * @param {LocaleTree} [previous] - Keys generated on the last write.
+ * @returns The locale file keys.
+ */
+export const mergeMerchantEdits = (generated: LocaleTree, existing?: LocaleTree, previous?: LocaleTree): LocaleTree => {
+  const locale: LocaleTree = {};
+
+  for (const key of new Set([...Object.keys(generated), ...Object.keys(existing ?? {})])) {
+    const generatedValue = generated[key];
+    const existingValue = existing?.[key];
+    const previousValue = previous?.[key];
+
+    if (isLocaleTree(generatedValue)) {
+      locale[key] = mergeMerchantEdits(
+        generatedValue,
+        isLocaleTree(existingValue) ? existingValue : undefined,
+        isLocaleTree(previousValue) ? previousValue : undefined,
+      );
+    } else if (generatedValue !== undefined) {
+      const edited =
+        existingValue !== undefined &&
+        (previousValue === undefined || JSON.stringify(existingValue) !== JSON.stringify(previousValue));
+      locale[key] = edited ? existingValue : generatedValue;
+    } else if (isLocaleTree(existingValue) && isLocaleTree(previousValue)) {
+      const kept = mergeMerchantEdits({}, existingValue, previousValue);
+      if (Object.keys(kept).length) locale[key] = kept;
+    } else if (previousValue === undefined) {
+      locale[key] = existingValue;
+    }
+  }
+
+  return locale;
+};
+
+/**
+ * Deep-merges the JSON fragments of a locales target into one locale file per language, keeping the
+ * merchant edits of the existing files. Conflicting keys are reported with both source files.
+ *
+ * @param {ResolvedTarget} target - Resolved target, with `locales` options.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options, the ownership ledger, the content cache (with the snapshots of the generated keys) and the lifecycle hooks.
+ */
+export const writeLocales = async (
+  target: ResolvedTarget,
+  logger: Logger,
+  options: {
+    timestamp?: boolean;
+    ledger?: Ledger;
+    cache?: ContentCache;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  } = {
+    timestamp: false,
+  },
+): Promise<void> => {
+  if (!target.locales) return;
+
+  const { timestamp, ledger, cache, hooks, dryRun } = options;
+
+  for (const [file, sources] of await getLocaleFragments(target)) {
+    const relativePath = toRelative(file);
+
+    try {
+      const fragments: Array<[string, LocaleTree]> = [];
+
+      for (const src of sources) {
+        let fragment: unknown;
+        try {
+          fragment = JSON.parse(await readFile(src, 'utf-8'));
+        } catch (error: unknown) {
+          throw new Error(`${toRelative(src)}: ${toError(error).message}`);
+        }
+        if (!isLocaleTree(fragment)) throw new Error(`${toRelative(src)} is not a JSON object`);
+        fragments.push([src, fragment]);
+      }
+
+      const { locale: generated, conflicts } = mergeLocaleFragments(fragments);
+
+      for (const {
+        key,
+        sources: [used, ignored],
+      } of conflicts) {
+        logWarn(
+          `Locale key "${key}" of ${relativePath} is defined in ${toRelative(used)} and ${toRelative(ignored)} (using ${toRelative(used)})`,
+          logger,
+          timestamp,
+        );
+      }
+
+      // Invalid existing files throw, so that merchant edits are never overwritten.
+      const existing: unknown = existsSync(file) ? JSON.parse(await readFile(file, 'utf-8')) : undefined;
+      const previous = cache?.getSnapshot(file);
+      const locale = mergeMerchantEdits(
+        generated,
+        isLocaleTree(existing) ? existing : undefined,
+        isLocaleTree(previous) ? previous : undefined,
+      );
+
+      await writeFileIfChanged(file, `${JSON.stringify(locale, null, 2)}\n`, logger, {
+        timestamp,
+        ledger,
+        target,
+        hooks,
+        dryRun,
+      });
+      cache?.setSnapshot(file, generated);
+    } catch (error: unknown) {
+      logError(`could not create ${relativePath}`, logger, timestamp);
+      if (error instanceof Error) logger.error(error.message);
+      await hooks?.onError?.(toError(error), { type: existsSync(file) ? 'update' : 'create', dest: file, target });
+    }
+  }
+};
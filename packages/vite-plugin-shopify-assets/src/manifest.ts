@@ -0,0 +1,121 @@
+import { basename, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+
+import { logError, logWarn, toError, writeFileIfChanged } from './utils.js';
+
+import type { Logger } from 'vite';
+import type { AssetHooks, ResolvedManifestOptions } from './options.js';
+import type { Ledger } from './ledger.js';
+
+export type ManifestEntry = {
+  /**
+   * Logical file name of the asset (after `rename`, before `hash`), eg: `logo.png`.
+   */
+  name: string;
+  /**
+   * Absolute path of the fingerprinted destination file, eg: `/theme/assets/logo-1a2b3c4d.png`.
+   */
+  dest: string;
+};
+
+/**
+ * A map with all fingerprinted destination files (keys), and their corresponding manifest entry (values).
+ */
+export type AssetManifest = Map<string, ManifestEntry>;
+
+/**
+ * Returns the manifest entries as a plain object of logical names and fingerprinted file names, sorted by name.
+ */
+export const getManifestRecord = (manifest: AssetManifest): Record<string, string> =>
+  Object.fromEntries(
+    Array.from(manifest.values())
+      .map(({ name, dest }) => [name, basename(dest)] as const)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  );
+
+/**
+ * Whether a file name can be written in a Liquid string literal: Liquid has no escape sequences, and ends tags at the
+ * first `%}` or `}}`, even within quotes.
+ */
+export const isLiquidSafeName = (name: string): boolean => !/'|%}|}}/.test(name);
+
+/**
+ * Builds the Liquid snippet that resolves a logical asset name to its fingerprinted `asset_url`. The names which can not
+ * be written in Liquid (see `isLiquidSafeName`) are left out.
+ *
+ * @param {Record<string, string>} record - Logical names and fingerprinted file names.
+ * @param {string} snippetName - Snippet name, as used in `{% render %}`.
+ * @returns The snippet content.
+ */
+export const buildManifestSnippet = (record: Record<string, string>, snippetName: string): string => {
+  const cases = Object.entries(record)
+    .filter(([name, file]) => isLiquidSafeName(name) && isLiquidSafeName(file))
+    .map(([name, file]) => `  {%- when '${name}' -%}{{ '${file}' | asset_url }}`)
+    .join('\n');
+
+  return `{%- comment -%}
+  Asset manifest generated by vite-plugin-shopify-assets - do not edit this file directly.
+  Outputs the asset_url of the current fingerprinted file of an asset.
+
+  Accepts:
+  - name: {String} Logical asset file name, eg: 'logo.png'
+
+  Usage:
+  {%- capture logo_url -%}{% render '${snippetName}', name: 'logo.png' %}{%- endcapture -%}
+{%- endcomment -%}
+{%- case name -%}
+${cases ? `${cases}\n` : ''}  {%- else -%}{{ name | asset_url }}
+{%- endcase -%}
+`;
+};
+
+/**
+ * Writes the asset manifest JSON file and Liquid snippet, when enabled.
+ *
+ * @param {AssetManifest} manifest - Asset manifest.
+ * @param {ResolvedManifestOptions} options - Resolved `manifest` plugin options.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} logOptions - Logging options, the ownership ledger and the lifecycle hooks.
+ */
+export const writeManifest = async (
+  manifest: AssetManifest,
+  options: ResolvedManifestOptions,
+  logger: Logger,
+  logOptions: {
+    timestamp?: boolean;
+    ledger?: Ledger;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  } = {
+    timestamp: false,
+  },
+): Promise<void> => {
+  const { timestamp, ledger, hooks, dryRun } = logOptions;
+  const record = getManifestRecord(manifest);
+
+  if (options.snippet) {
+    for (const [name, file] of Object.entries(record)) {
+      if (isLiquidSafeName(name) && isLiquidSafeName(file)) continue;
+      logWarn(
+        `${name} is left out of ${basename(options.snippet)}: its name can not be quoted in Liquid`,
+        logger,
+        timestamp,
+      );
+    }
+  }
+
+  for (const [file, content] of [
+    [options.json, `${JSON.stringify(record, null, 2)}\n`],
+    [options.snippet, options.snippet ? buildManifestSnippet(record, basename(options.snippet, '.liquid')) : ''],
+  ] as const) {
+    if (!file) continue;
+
+    await writeFileIfChanged(file, content, logger, { timestamp, ledger, hooks, dryRun }).catch(
+      async (error: unknown) => {
+        logError(`could not create ${relative(process.cwd(), file)}`, logger, timestamp);
+        if (error instanceof Error) logger.error(error.message);
+        await hooks?.onError?.(toError(error), { type: existsSync(file) ? 'update' : 'create', dest: file });
+      },
+    );
+  }
+};
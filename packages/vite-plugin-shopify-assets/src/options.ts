@@ -1,15 +1,265 @@
-import { resolve, join } from 'node:path';
+import { resolve, join, parse, relative } from 'node:path';
 import { constants } from 'node:fs/promises';
 
 import { normalizePath } from 'vite';
 import fg from 'fast-glob';
+import picomatch from 'picomatch';
 
-import { logWarnConsole } from './utils.js';
-import { VITE_PUBLIC_DIRNAME, THEME_ASSETS_DIRNAME } from './constants.js';
+import { isLogLevelEnabled, logWarnConsole } from './utils.js';
+import { getSectionSchemaGlob } from './section.js';
+import {
+  VITE_PUBLIC_DIRNAME,
+  THEME_ASSETS_DIRNAME,
+  THEME_SNIPPETS_DIRNAME,
+  THEME_LOCALES_DIRNAME,
+  THEME_SECTIONS_DIRNAME,
+  DEFAULT_HASH_PATTERN,
+  DEFAULT_MANIFEST_JSON,
+  DEFAULT_MANIFEST_SNIPPET,
+  DEFAULT_LEDGER_FILE,
+  DEFAULT_CACHE_FILE,
+  DEFAULT_DEBOUNCE,
+  DEFAULT_GITIGNORE_FILE,
+  SHOPIFY_IGNORE_FILE,
+  DEFAULT_REPORT_FILE,
+  DEFAULT_FONT_FACE_SNIPPET,
+  DEFAULT_SETTINGS_SCHEMA_FILE,
+} from './constants.js';
+
+import type { ActionReason } from './utils.js';
 
 type MaybePromise<T> = T | Promise<T>;
 
-export type RenameFunc = (fileName: string, fileExtension: string, fullPath: string) => MaybePromise<string>;
+export type RenameMode = 'serve' | 'build';
+
+export type RenameContext = {
+  /**
+   * Absolute path of the source file.
+   */
+  src: string;
+  /**
+   * Path of the source file, relative to `publicDir`, eg: `images/home/hero.png`.
+   */
+  path: string;
+  /**
+   * Directory segments of the source file, relative to `publicDir`, eg: `['images', 'home']`.
+   */
+  dirs: string[];
+  /**
+   * Resolved target the file matched.
+   */
+  target: ResolvedTarget;
+  /**
+   * Content hash of the source file (sha256, hex).
+   */
+  hash: string;
+  /**
+   * `'serve'` on the dev server and `watch()`, `'build'` on build (including watch mode), `sync()`, `clean()` and `list()`.
+   */
+  mode: RenameMode;
+};
+
+export type RenameFunc = (
+  fileName: string,
+  fileExtension: string,
+  fullPath: string,
+  context: RenameContext,
+) => MaybePromise<string>;
+
+export type TransformContext = {
+  /**
+   * Absolute path of the source file.
+   */
+  src: string;
+  /**
+   * Absolute path of the resolved destination file (after `rename`).
+   */
+  dest: string;
+};
+
+export type TransformFunc = (content: Buffer, context: TransformContext) => MaybePromise<string | Buffer | null>;
+
+export type AssetEvent = {
+  /**
+   * The file event: `create` or `update` for copied and skipped files, `delete` for deleted files.
+   */
+  type: 'create' | 'update' | 'delete';
+  /**
+   * Absolute path of the source file. Undefined for cleaned files without a source (eg: not in the bundle),
+   * and for generated files (sprites, locales, settings schema, font faces snippets, asset manifest).
+   */
+  src?: string;
+  /**
+   * Absolute path of the destination file.
+   */
+  dest: string;
+  /**
+   * Resolved target of the source file, or of the generated file. Undefined for cleaned files without a source,
+   * and for the asset manifest.
+   */
+  target?: ResolvedTarget;
+  /**
+   * Why the file was deleted or skipped, eg: `'source deleted'`, `'not in bundle'` or `'unchanged'`.
+   */
+  reason?: ActionReason;
+  /**
+   * Time spent copying or deleting the file, in milliseconds.
+   */
+  duration?: number;
+};
+
+export type AssetHook = (event: AssetEvent) => MaybePromise<void>;
+
+export type AssetErrorHook = (error: Error, event: AssetEvent) => MaybePromise<void>;
+
+export type AssetHooks = {
+  onAssetCopied?: AssetHook;
+  onAssetDeleted?: AssetHook;
+  onAssetSkipped?: AssetHook;
+  onError?: AssetErrorHook;
+};
+
+export type SvgSnippetOptions = {
+  /**
+   * Class names always added to the root `<svg>` element, before the `class` snippet parameter.
+   *
+   * @default undefined
+   */
+  className?: string;
+  /**
+   * Default value of the `size` snippet parameter, used as width and height of the root `<svg>` element.
+   * Set to `false` to render the snippet without width and height.
+   *
+   * @default undefined (the `viewBox` width and height, or 24 without `viewBox`)
+   */
+  size?: number | false;
+  /**
+   * Whether to add a `{% comment %}` header describing how to render the snippet.
+   *
+   * @default false
+   */
+  comment?: boolean;
+};
+
+export type ResolvedSvgSnippetOptions = {
+  className?: string;
+  size?: number | false;
+  comment: boolean;
+};
+
+export type SpriteOptions = {
+  /**
+   * File name of the sprite snippet, relative to `dest`.
+   *
+   * @default 'icon-sprite.liquid'
+   */
+  fileName?: string;
+  /**
+   * File name of the companion snippet that renders a single icon from the sprite, relative to `dest`.
+   * Set to `false` to skip it.
+   *
+   * @default 'icon.liquid'
+   */
+  iconSnippet?: string | false;
+  /**
+   * Prefix of the `<symbol>` ids. Not repeated when the file name already starts with it.
+   *
+   * @default 'icon-'
+   */
+  idPrefix?: string;
+};
+
+export type ResolvedSpriteOptions = {
+  file: string;
+  iconSnippet?: string;
+  idPrefix: string;
+};
+
+export type CssUrlsOptions = {
+  /**
+   * Writes the stylesheets as `.css.liquid` files, with references rendered by the `asset_url` filter:
+   * `url({{ 'bg.png' | asset_url }})`. They are still referenced as `.css` files in the theme.
+   *
+   * @default false
+   */
+  liquid?: boolean;
+};
+
+export type ResolvedCssUrlsOptions = {
+  liquid: boolean;
+};
+
+export type LocalesOptions = {
+  /**
+   * Locale of the theme default language, written as `{locale}.default.json`.
+   *
+   * @default 'en'
+   */
+  defaultLocale?: string;
+};
+
+export type ResolvedLocalesOptions = {
+  defaultLocale: string;
+};
+
+export type SettingsSchemaOptions = {
+  /**
+   * Path of the assembled settings schema, relative to `themeRoot`.
+   *
+   * @default 'config/settings_schema.json'
+   */
+  file?: string;
+};
+
+export type ResolvedSettingsSchemaOptions = {
+  file: string;
+};
+
+export type FontFaceDescriptor = {
+  family?: string;
+  weight?: number | string;
+  style?: string;
+};
+
+export type FontFaceOptions = {
+  /**
+   * Path of the generated snippet, relative to `themeRoot`.
+   *
+   * @default 'snippets/font-faces.liquid'
+   */
+  snippet?: string;
+  /**
+   * Family, weight and style of the font files, by source file name (without extension).
+   * Overrides the values guessed from the file names (eg: `Inter-BoldItalic` -> `Inter`, `700`, `italic`).
+   *
+   * ```js
+   * fonts: { 'brand-display': { family: 'Brand Display', weight: '100 900' } },
+   * ```
+   *
+   * @default {}
+   */
+  fonts?: Record<string, FontFaceDescriptor>;
+  /**
+   * Value of the `font-display` descriptor.
+   *
+   * @default 'swap'
+   */
+  display?: string;
+  /**
+   * Adds `<link rel="preload">` tags (for the most modern format of each font face): `true` for all
+   * font faces, or a list of font families and file names (without extension) to preload.
+   *
+   * @default false
+   */
+  preload?: boolean | string[];
+};
+
+export type ResolvedFontFaceOptions = {
+  file: string;
+  fonts: Record<string, FontFaceDescriptor>;
+  display: string;
+  preload: boolean | string[];
+};
 
 export type Target = {
   /**
@@ -77,23 +327,215 @@ export type Target = {
    */
   ignore?: string | string[];
   /**
-   * Rename function applied to matching files.
+   * Rename pattern or function applied to matching files.
    *
-   * ```ts
-   * rename: (file: string, ext: string, src:string): string,
+   * A string is a file name pattern, supporting the `[name]`, `[ext]`, `[dir]` (directory path relative
+   * to `publicDir`, joined with `-`), `[hash]` and `[hash:<length>]` (source content hash) tokens:
+   *
+   * ```js
+   * rename: '[dir]-[name].[ext]',     // images/home/hero.png -> images-home-hero.png
+   * rename: '[name].[hash:8].[ext]',  // hero.png -> hero.1a2b3c4d.png
+   * rename: '[name].liquid',          // icon-cart.svg -> icon-cart.liquid
    * ```
    *
+   * A function receives the file name, extension and absolute path of the source file, and a context
+   * with its path relative to `publicDir`, its directory segments, the target, its content hash and the mode:
+   *
    * ```js
    * targets: [{
-   *   src: 'icons/icon-*.svg',
+   *   src: 'icons/{ui,brand}/*.svg',
    *   dest: 'snippets',
-   *   rename: (file, ext, src) => `${file}.liquid`,
+   *   rename: (file, ext, src, { dirs }) => `${[...dirs, file].join('-')}.liquid`,
    * }],
    * ```
    *
+   * Stale copies of renamed files using the content hash are cleaned automatically.
+   *
    * @default undefined
    */
   rename?: string | RenameFunc;
+  /**
+   * Transform function applied to the content of matching files before they are written.
+   *
+   * Receives the source file content and its resolved paths. Return the new content, or `null`
+   * to skip the file. Runs the same way on serve, build and watch mode.
+   *
+   * ```js
+   * targets: [{
+   *   src: 'scripts/*.js',
+   *   transform: (content, { src, dest }) => content.toString().replace(/^\uFEFF/, ''),
+   * }],
+   * ```
+   *
+   * @default undefined
+   */
+  transform?: TransformFunc;
+  /**
+   * Converts matching SVG files into Liquid snippets.
+   *
+   * The markup is minified, editor metadata and fixed width/height are removed, and the root `<svg>`
+   * element gets the `{{ class }}` and `{{ size }}` snippet parameters (`size` defaults to the `viewBox` size).
+   * Runs before `transform`.
+   *
+   * When enabled, `dest` defaults to `'snippets'` and `rename` defaults to `'[name].liquid'`.
+   *
+   * ```js
+   * targets: [{
+   *   src: 'icons/icon-*.svg',
+   *   svgSnippet: { className: 'icon', comment: true },
+   *   cleanMatch: 'icon-*.liquid',
+   * }],
+   * ```
+   *
+   * ```liquid
+   * {% render 'icon-cart', class: 'header__icon', size: 20 %}
+   * ```
+   *
+   * @default false
+   */
+  svgSnippet?: boolean | SvgSnippetOptions;
+  /**
+   * Composes section files from their Liquid markup and a separate schema file, next to it:
+   * `section-a.liquid` + `section-a.schema.json` -> `sections/section-a.liquid`, with the `{% schema %}` block
+   * attached. Schemas can also be modules (`.ts`, `.mts`, `.js`, `.mjs`) default-exporting the schema object.
+   *
+   * The section is regenerated when its markup or its schema changes. Schema files are never copied, and
+   * sections without a schema file are copied as is. When enabled, `dest` defaults to `'sections'`.
+   *
+   * ```js
+   * targets: [{
+   *   src: '../sections/*.liquid',
+   *   sectionSchema: true,
+   *   cleanMatch: '*.liquid',
+   * }],
+   * ```
+   *
+   * ```ts
+   * // sections/section-a.schema.ts
+   * export default { name: 'Section A', settings: [] };
+   * ```
+   *
+   * @default false
+   */
+  sectionSchema?: boolean;
+  /**
+   * Combines all matching SVG files into a single sprite snippet of `<symbol>` elements, plus a
+   * companion snippet that renders a single icon with `<use href="#icon-{{ name }}">`.
+   *
+   * The sprite is regenerated when an icon is created, updated or deleted. `rename` and `transform`
+   * are not used in this mode, and `dest` defaults to `'snippets'`.
+   *
+   * ```js
+   * targets: [{
+   *   src: 'icons/*.svg',
+   *   sprite: { fileName: 'icon-sprite.liquid', iconSnippet: 'icon.liquid' },
+   * }],
+   * ```
+   *
+   * ```liquid
+   * {% render 'icon-sprite' %}
+   * {% render 'icon', name: 'cart', class: 'header__icon', size: 20 %}
+   * ```
+   *
+   * @default false
+   */
+  sprite?: boolean | SpriteOptions;
+  /**
+   * Generates a snippet of `@font-face` declarations (and optional preload tags) for the matching font files,
+   * which are still copied to `dest`. Files are grouped by family, weight and style, guessed from their names
+   * (eg: `Inter-Bold.woff2` and `Inter-Bold.woff`) or set with `fonts`.
+   *
+   * The snippet is regenerated when a font is created or deleted, and uses the final (renamed) file names.
+   *
+   * ```js
+   * targets: [{
+   *   src: 'fonts/*.{woff,woff2}',
+   *   fontFace: { preload: ['Inter'] },
+   * }],
+   * ```
+   *
+   * ```liquid
+   * {% render 'font-faces' %}
+   * ```
+   *
+   * @default undefined
+   */
+  fontFace?: boolean | FontFaceOptions;
+  /**
+   * Deep-merges the matching JSON fragments into one locale file per language, in `dest` (default: `'locales'`).
+   * The language is read from the fragment name: `counter.en.json` -> `en.default.json` (default locale),
+   * `counter.fr.json` -> `fr.json`, and `counter.en.schema.json` -> `en.default.schema.json`. Fragments without
+   * a name before their locale (eg: `faq.json`, `en.json`) are ignored.
+   *
+   * Keys defined by several fragments are reported with both source files (the first one wins). Keys edited
+   * by the merchant in the existing locale files are preserved. The locale files are regenerated when a fragment
+   * is created, updated or deleted. `rename` and `transform` are not used in this mode.
+   *
+   * ```js
+   * targets: [{
+   *   src: '../components/*.json',
+   *   locales: { defaultLocale: 'en' },
+   * }],
+   * ```
+   *
+   * @default false
+   */
+  locales?: boolean | LocalesOptions;
+  /**
+   * Assembles the matching fragments into `config/settings_schema.json`, in path order (eg: `01-theme-info.json`,
+   * `02-colors.ts`). Each fragment is a JSON file, or a module (`.ts`, `.mts`, `.js`, `.mjs`) default-exporting a
+   * settings group or an array of settings groups.
+   *
+   * The `theme_info` group is always written first, and setting ids must be unique across all fragments
+   * (the settings schema is not written otherwise). It is only written when its content changes.
+   *
+   * ```js
+   * targets: [{
+   *   src: '../settings/*.{json,ts}',
+   *   settingsSchema: true,
+   * }],
+   * ```
+   *
+   * @default false
+   */
+  settingsSchema?: boolean | SettingsSchemaOptions;
+  /**
+   * Rewrites the relative `url()` and `@import` references of the matching stylesheets (`.css` files)
+   * to the flattened (and renamed) destination of the referenced files, eg: `url(../images/bg.png)` ->
+   * `url(bg.png)`. Runs before `transform`.
+   *
+   * References are resolved with the same source-to-destination map as the copied files, a warning is
+   * logged for those pointing to files no target copies. Absolute, root-relative and `data:` URLs are kept.
+   *
+   * ```js
+   * targets: [
+   *   'images/*',
+   *   { src: 'vendor/{slider,modal}/*.css', cssUrls: { liquid: true } }, // vendor/slider/slider.css -> slider.css.liquid
+   * ],
+   * ```
+   *
+   * @default false
+   */
+  cssUrls?: boolean | CssUrlsOptions;
+  /**
+   * Content-hash fingerprinting of the destination file names, applied after `rename`.
+   *
+   * When `true`, the `[name]-[hash].[ext]` pattern is used. Supported tokens: `[name]`, `[ext]`, `[hash]`
+   * and `[hash:<length>]` (default length: 8). An asset manifest is written to resolve logical names
+   * to the current fingerprinted files (see the `manifest` plugin option).
+   *
+   * Cannot be combined with `svgSnippet` or `sprite`.
+   *
+   * ```js
+   * targets: [{
+   *   src: 'images/*.{jpg,png,webp}',
+   *   hash: '[name].[hash:10].[ext]',
+   * }],
+   * ```
+   *
+   * @default false
+   */
+  hash?: boolean | string;
   /**
    * Whether to dereference symlinks.
    *
@@ -125,6 +567,19 @@ export type ResolvedTarget = {
   cleanMatch?: string;
   ignore: string[];
   rename?: string | RenameFunc;
+  transform?: TransformFunc;
+  svgSnippet?: ResolvedSvgSnippetOptions;
+  sectionSchema: boolean;
+  sprite?: ResolvedSpriteOptions;
+  fontFace?: ResolvedFontFaceOptions;
+  locales?: ResolvedLocalesOptions;
+  settingsSchema?: ResolvedSettingsSchemaOptions;
+  cssUrls?: ResolvedCssUrlsOptions;
+  hash?: string;
+  /**
+   * Logical file name of an output renamed by the collision strategy (after `rename`, before `hash`).
+   */
+  logicalName?: string;
   dereference: boolean;
   errorOnExist: boolean;
   force: boolean;
@@ -132,13 +587,71 @@ export type ResolvedTarget = {
   preserveTimestamps: boolean;
 };
 
+export type ManifestOptions = {
+  /**
+   * Path of the JSON manifest, relative to `themeRoot`. Set to `false` to skip it.
+   *
+   * @default 'assets/shopify-assets-manifest.json'
+   */
+  json?: string | false;
+  /**
+   * Path of the Liquid manifest snippet, relative to `themeRoot`. Set to `false` to skip it.
+   * Names which can not be quoted in Liquid (containing `'`, `%}` or `}}`) are only listed in the JSON file, with a warning.
+   *
+   * @default 'snippets/asset-url.liquid'
+   */
+  snippet?: string | false;
+};
+
+export type ResolvedManifestOptions = {
+  json?: string;
+  snippet?: string;
+};
+
+export type ThemeRootOptions = {
+  /**
+   * Shopify theme directory.
+   */
+  root: string;
+  /**
+   * Target options overridden for this theme root, by target source (the `src` of the target, or the target string).
+   * Set a target to `false` to not copy it to this theme root.
+   *
+   * ```js
+   * targets: {
+   *   'images/*': { rename: '[name]-eu.[ext]' },
+   *   'fonts/*': false,
+   * },
+   * ```
+   */
+  targets?: Record<string, Partial<Target> | false>;
+};
+
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'verbose';
+
+export type CollisionStrategy = 'error' | 'warn-first-wins' | 'prefix-path' | 'hash-suffix';
+
 export type PluginShopifyAssetsOptions = {
   /**
    * Shopify theme directory.
    *
+   * Several theme directories can be written from the same sources, in a single Vite process: as an array,
+   * or named by store (the names tag the logs), with target options overridden per theme root.
+   *
+   * ```js
+   * themeRoot: ['themes/eu', 'themes/us'],
+   * themeRoot: {
+   *   eu: 'themes/eu',
+   *   us: { root: 'themes/us', targets: { 'fonts/*': false } },
+   * },
+   * ```
+   *
+   * Each theme root has its own ownership ledger, content cache and build report. Note that the Vite build output
+   * is only written to `build.outDir`.
+   *
    * @default process.cwd()
    */
-  themeRoot?: string;
+  themeRoot?: string | string[] | Record<string, string | ThemeRootOptions>;
   /**
    * The root directory where your asset source files are located.
    *
@@ -173,25 +686,253 @@ export type PluginShopifyAssetsOptions = {
    * @default true
    */
   onWatch?: boolean;
+  /**
+   * How long to wait for more file changes on serve, in milliseconds, before writing them as a single batch.
+   *
+   * Successive changes of the same file are collapsed (eg: created then deleted is nothing to write), and a
+   * summary line is logged after each batch. This avoids a storm of writes when many files change at once
+   * (eg: switching git branches), which Shopify CLI would upload one by one.
+   *
+   * @default 100
+   */
+  debounce?: number;
   /**
    * Suppress console output.
-   * @default true
+   *
+   * @deprecated Use `logLevel` instead: `silent: true` is the same as `logLevel: 'silent'`,
+   * and `silent: false` as `logLevel: 'verbose'`.
+   * @default undefined
    */
   silent?: boolean;
+  /**
+   * Which messages are logged:
+   *
+   * - `'silent'`: nothing.
+   * - `'error'`: copy, delete and configuration errors.
+   * - `'warn'`: errors, collisions, Shopify theme violations and other warnings.
+   * - `'info'`: warnings, every written and deleted file, and a summary of each full copy.
+   * - `'verbose'`: everything, including the unchanged files.
+   *
+   * @default 'info'
+   */
+  logLevel?: LogLevel;
+  /**
+   * Path of a JSON report written after each build, relative to the project root (ie: `process.cwd()`).
+   * Set to `true` to use the default path.
+   *
+   * The report lists every file copied, skipped, renamed, deduplicated and deleted by the build, plus
+   * the errors, and the sizes and timings per target. Paths are relative and sorted, so that reports
+   * can be compared between releases.
+   *
+   * @default false ('shopify-assets-report.json' when `true`)
+   */
+  report?: string | boolean;
+  /**
+   * Asset manifest of the fingerprinted files, written when at least one target uses `hash`.
+   *
+   * It maps logical names to the current fingerprinted file names, as a JSON file and a Liquid snippet:
+   *
+   * ```liquid
+   * {%- capture logo_url -%}{% render 'asset-url', name: 'logo.png' %}{%- endcapture -%}
+   * <img src="{{ logo_url }}" alt="">
+   * ```
+   *
+   * Set to `false` to disable both files.
+   *
+   * @default { json: 'assets/shopify-assets-manifest.json', snippet: 'snippets/asset-url.liquid' }
+   */
+  manifest?: boolean | ManifestOptions;
+  /**
+   * Path of the ownership ledger file, relative to `themeRoot`. Set to `false` to disable it.
+   *
+   * The ledger records every file created by the plugin (and by the Vite build). Cleanup only ever
+   * deletes files listed in the ledger, so assets added through the Shopify theme editor or by apps
+   * are never removed. Files that already existed when the plugin first wrote them (eg: files written
+   * before the ledger existed) are never recorded, so they are never cleaned. Recorded files that no target
+   * produces anymore (eg: after a `rename` change) are deleted.
+   *
+   * @default '.shopify-assets.json'
+   */
+  ledger?: string | false;
+  /**
+   * Glob patterns of files that must never be deleted by the plugin, relative to `themeRoot`.
+   *
+   * ```js
+   * preserve: ['assets/app-*.js', 'snippets/custom-*.liquid'],
+   * ```
+   *
+   * @default []
+   */
+  preserve?: string | string[];
+  /**
+   * Path of a `.gitignore` file, relative to the project root (ie: `process.cwd()`), where the plugin keeps a block
+   * listing every file it writes: copied assets, generated files (snippets, locales, settings schema) and the asset
+   * manifest. Set to `true` to use the default path.
+   *
+   * The block is updated whenever that list changes, the rest of the file is left untouched.
+   *
+   * @default false ('.gitignore' when `true`)
+   */
+  gitignore?: string | boolean;
+  /**
+   * Keep the same block in the `.shopifyignore` file of the theme, so that Shopify CLI never uploads the files
+   * written by the plugin (eg: when they are deployed by another pipeline).
+   *
+   * Whether enabled or not, a warning is logged for every written file matching another `.shopifyignore` pattern.
+   *
+   * @default false
+   */
+  shopifyignore?: boolean;
+  /**
+   * Path of the content cache file, relative to the project root (ie: `process.cwd()`). Set to `false` to disable it.
+   *
+   * The cache records the source and destination stats of every copied file, so that unchanged files are not
+   * rewritten on every serve start and build (Shopify CLI would upload them again). Without the cache, unchanged
+   * files are still detected by comparing their content with the existing destination.
+   *
+   * @default 'node_modules/.cache/vite-plugin-shopify-assets/content.json'
+   */
+  cache?: string | false;
+  /**
+   * Compute and log every copy, write and delete action, with its reason, without touching the disk.
+   *
+   * Useful to check what the plugin would do before enabling `emptyOutDir` or a `cleanMatch` pattern.
+   *
+   * @default false
+   */
+  dryRun?: boolean;
+  /**
+   * How to resolve source files that flatten to the same destination, eg: `images/a/logo.png` and `images/b/logo.png`.
+   *
+   * - `'error'`: fail with the list of all conflicting sources.
+   * - `'warn-first-wins'`: keep the first source (in target and file path order) and warn about the others.
+   * - `'prefix-path'`: prefix every conflicting file name with its directory path, eg: `images-a-logo.png`.
+   * - `'hash-suffix'`: suffix every conflicting file name with the hash of its path, eg: `logo-1a2b3c4d.png`.
+   *
+   * Collisions are found on the file names before `hash`, and resolved the same way on serve, build and watch mode.
+   *
+   * @default 'warn-first-wins'
+   */
+  collisions?: CollisionStrategy;
+  /**
+   * Fail the build (or serve start) when a resolved file breaks a Shopify theme constraint, instead of only warning.
+   *
+   * All files are validated before they are copied: file names (letters, numbers, dashes, underscores and dots),
+   * size limits (20 MB for assets, 256 KB for Liquid files), extensions allowed in `assets/`, and extensions
+   * accepted by each theme folder (eg: `.liquid` files cannot be sent to `config/` or `locales/`).
+   *
+   * @default false
+   */
+  strict?: boolean;
+  /**
+   * Await every copy, write and delete, and fail once they all ran when any of them failed, with a single error
+   * listing each failed source and destination (so `vite build` exits with a non-zero code). On serve, those errors
+   * are shown in the Vite error overlay. The CLI and the programmatic API throw them.
+   *
+   * By default, failures are only logged (and passed to `onError`).
+   *
+   * @default false
+   */
+  failOnError?: boolean;
+  /**
+   * Called after a file was copied to the theme (or rewritten with a new content), including the generated files.
+   *
+   * Hooks are awaited, so they can delay the next step, eg: to push the file with Shopify CLI.
+   *
+   * ```js
+   * onAssetCopied: async ({ type, src, dest }) => notifyLiveReload(dest),
+   * ```
+   */
+  onAssetCopied?: AssetHook;
+  /**
+   * Called after a file was deleted from the theme, with the reason of the deletion.
+   */
+  onAssetDeleted?: AssetHook;
+  /**
+   * Called when a file was not copied: its destination is `'unchanged'`, or it was `'skipped by transform'`.
+   */
+  onAssetSkipped?: AssetHook;
+  /**
+   * Called when a file could not be copied or deleted, with the error.
+   */
+  onError?: AssetErrorHook;
 };
 
 export type ResolvedPluginShopifyAssetsOptions = {
+  name?: string;
   publicDir: string;
   themeRoot: string;
   themeAssetsDir: string;
   targets: ResolvedTarget[];
+  manifest?: ResolvedManifestOptions;
+  ledger?: string;
+  preserve: string[];
+  gitignore?: string;
+  shopifyignore?: string;
+  cache?: string;
+  dryRun: boolean;
+  collisions: CollisionStrategy;
+  strict: boolean;
+  failOnError: boolean;
+  hooks: AssetHooks;
   onServe: boolean;
   onBuild: boolean;
   onWatch: boolean;
-  silent: boolean;
+  debounce: number;
+  logLevel: LogLevel;
+  report?: string;
 };
 
-export const resolveOptions = (options: PluginShopifyAssetsOptions): ResolvedPluginShopifyAssetsOptions => {
+/**
+ * Resolves the plugin options of every theme root (see `themeRoot`).
+ *
+ * @param {PluginShopifyAssetsOptions} options - Plugin options, as passed to `shopifyAssets()`.
+ * @returns The resolved options, one per theme root.
+ * @throws When a theme root is listed twice, or when a target override does not match any target.
+ */
+export const resolveOptions = (options: PluginShopifyAssetsOptions): ResolvedPluginShopifyAssetsOptions[] => {
+  const themeRoot = options?.themeRoot;
+  if (!themeRoot || typeof themeRoot === 'string') return [resolveRootOptions({ ...options, themeRoot })];
+
+  const roots = Array.isArray(themeRoot)
+    ? themeRoot.map((root): [string, ThemeRootOptions] => [
+        normalizePath(relative(process.cwd(), resolve(root))),
+        { root },
+      ])
+    : Object.entries(themeRoot).map(([name, root]): [string, ThemeRootOptions] => [
+        name,
+        typeof root === 'string' ? { root } : root,
+      ]);
+
+  if (!roots.length) {
+    throw new Error('[shopify-assets] themeRoot must list at least one theme directory');
+  }
+
+  const resolvedRoots = new Set<string>();
+
+  return roots.map(([name, { root, targets: overrides = {} }]) => {
+    const resolvedRoot = resolve(root);
+    if (resolvedRoots.has(resolvedRoot)) {
+      throw new Error(`[shopify-assets] The theme root ${root} is listed more than once`);
+    }
+    resolvedRoots.add(resolvedRoot);
+
+    const targets = overrideTargets(options.targets, overrides, name);
+    return resolveRootOptions({ ...options, themeRoot: root, targets }, name);
+  });
+};
+
+/**
+ * Resolves the plugin options of a single theme root.
+ *
+ * @param {PluginShopifyAssetsOptions} options - Plugin options, with a single theme root.
+ * @param {string} [name] - Name of the theme root, when `themeRoot` lists several theme roots.
+ * @returns The resolved options.
+ */
+function resolveRootOptions(
+  options: PluginShopifyAssetsOptions & { themeRoot?: string },
+  name?: string,
+): ResolvedPluginShopifyAssetsOptions {
   // Note: use Vite's normalizePath when using paths (eg: join, resolve)
   // It will convert Windows paths to POSIX for path comparation
   // Vite: https://vitejs.dev/guide/api-plugin#path-normalization
@@ -199,6 +940,8 @@ export const resolveOptions = (options: PluginShopifyAssetsOptions): ResolvedPlu
   const publicDir = options?.publicDir ? resolve(options.publicDir) : resolve(process.cwd(), VITE_PUBLIC_DIRNAME);
   const themeRoot = options?.themeRoot ? resolve(options.themeRoot) : resolve(process.cwd());
   const themeAssetsDir = join(themeRoot, THEME_ASSETS_DIRNAME);
+  const logLevel =
+    options?.logLevel ?? (options?.silent === undefined ? 'info' : options.silent ? 'silent' : 'verbose');
 
   const targets = options?.targets?.length
     ? options.targets.map((target: Target | string): ResolvedTarget => {
@@ -209,6 +952,15 @@ export const resolveOptions = (options: PluginShopifyAssetsOptions): ResolvedPlu
             cleanMatch: undefined,
             ignore: [],
             rename: undefined,
+            transform: undefined,
+            svgSnippet: undefined,
+            sectionSchema: false,
+            sprite: undefined,
+            fontFace: undefined,
+            locales: undefined,
+            settingsSchema: undefined,
+            cssUrls: undefined,
+            hash: undefined,
             dereference: true,
             errorOnExist: false,
             force: true,
@@ -221,16 +973,84 @@ export const resolveOptions = (options: PluginShopifyAssetsOptions): ResolvedPlu
           throw new Error('[shopify-assets] Dynamic patterns are not supported in target.dest');
         }
 
+        if (target.fontFace && (target.svgSnippet || target.sprite)) {
+          throw new Error(
+            '[shopify-assets] target.fontFace cannot be combined with target.svgSnippet or target.sprite',
+          );
+        }
+
+        if (target.locales && (target.svgSnippet || target.sprite || target.fontFace || target.hash)) {
+          throw new Error(
+            '[shopify-assets] target.locales cannot be combined with target.svgSnippet, target.sprite, target.fontFace or target.hash',
+          );
+        }
+
+        if (
+          target.sectionSchema &&
+          (target.svgSnippet || target.sprite || target.locales || target.fontFace || target.hash)
+        ) {
+          throw new Error(
+            '[shopify-assets] target.sectionSchema cannot be combined with target.svgSnippet, target.sprite, target.locales, target.fontFace or target.hash',
+          );
+        }
+
+        if (
+          target.settingsSchema &&
+          (target.svgSnippet ||
+            target.sprite ||
+            target.locales ||
+            target.fontFace ||
+            target.sectionSchema ||
+            target.hash)
+        ) {
+          throw new Error(
+            '[shopify-assets] target.settingsSchema cannot be combined with target.svgSnippet, target.sprite, target.locales, target.fontFace, target.sectionSchema or target.hash',
+          );
+        }
+
+        if (target.hash && (target.svgSnippet || target.sprite)) {
+          throw new Error('[shopify-assets] target.hash cannot be combined with target.svgSnippet or target.sprite');
+        }
+
+        const svgSnippet = resolveSvgSnippet(target.svgSnippet);
+        const dest =
+          target.dest ??
+          (svgSnippet || target.sprite
+            ? THEME_SNIPPETS_DIRNAME
+            : target.locales
+              ? THEME_LOCALES_DIRNAME
+              : target.sectionSchema
+                ? THEME_SECTIONS_DIRNAME
+                : undefined);
+        const resolvedDest = normalizePath(dest ? join(themeRoot, dest) : themeAssetsDir);
+
         return {
           src: normalizePath(join(publicDir, target.src)),
-          dest: normalizePath(target.dest ? join(themeRoot, target.dest) : themeAssetsDir),
-          cleanMatch: resolveCleanMatch(themeRoot, target, options.silent),
-          ignore: Array.isArray(target?.ignore)
-            ? target.ignore.map((_ignore) => normalizePath(join(publicDir, _ignore)))
-            : typeof target.ignore === 'string'
-              ? [normalizePath(join(publicDir, target.ignore))]
-              : [],
-          rename: target.rename,
+          dest: resolvedDest,
+          cleanMatch: resolveCleanMatch(themeRoot, { ...target, dest }, !isLogLevelEnabled(logLevel, 'warn')),
+          ignore: [
+            ...(Array.isArray(target?.ignore)
+              ? target.ignore.map((_ignore) => normalizePath(join(publicDir, _ignore)))
+              : typeof target.ignore === 'string'
+                ? [normalizePath(join(publicDir, target.ignore))]
+                : []),
+            // Section schema files are attached to their section, never copied.
+            ...(target.sectionSchema
+              ? [getSectionSchemaGlob(picomatch.scan(normalizePath(join(publicDir, target.src))).base)]
+              : []),
+          ],
+          rename: target.rename ?? (svgSnippet ? '[name].liquid' : undefined),
+          transform: target.transform,
+          svgSnippet,
+          sectionSchema: target.sectionSchema ?? false,
+          sprite: resolveSprite(resolvedDest, target.sprite),
+          fontFace: resolveFontFace(themeRoot, target.fontFace),
+          locales: target.locales
+            ? { defaultLocale: (target.locales !== true && target.locales.defaultLocale) || 'en' }
+            : undefined,
+          settingsSchema: resolveSettingsSchema(themeRoot, target.settingsSchema),
+          cssUrls: target.cssUrls ? { liquid: target.cssUrls !== true && (target.cssUrls.liquid ?? false) } : undefined,
+          hash: target.hash === true ? DEFAULT_HASH_PATTERN : target.hash || undefined,
           dereference: target.dereference ?? true,
           errorOnExist: target.force === 'error',
           force: target.force === 'error' ? false : true,
@@ -245,6 +1065,15 @@ export const resolveOptions = (options: PluginShopifyAssetsOptions): ResolvedPlu
           cleanMatch: undefined,
           ignore: [],
           rename: undefined,
+          transform: undefined,
+          svgSnippet: undefined,
+          sectionSchema: false,
+          sprite: undefined,
+          fontFace: undefined,
+          locales: undefined,
+          settingsSchema: undefined,
+          cssUrls: undefined,
+          hash: undefined,
           dereference: true,
           errorOnExist: false,
           force: true,
@@ -254,22 +1083,92 @@ export const resolveOptions = (options: PluginShopifyAssetsOptions): ResolvedPlu
       ];
 
   return {
+    name,
     publicDir,
     themeAssetsDir,
     themeRoot,
     targets,
+    manifest: targets.some((target) => target.hash) ? resolveManifest(themeRoot, options.manifest) : undefined,
+    ledger:
+      options?.ledger === false ? undefined : normalizePath(join(themeRoot, options?.ledger ?? DEFAULT_LEDGER_FILE)),
+    preserve: Array.isArray(options?.preserve) ? options.preserve : options?.preserve ? [options.preserve] : [],
+    gitignore: options?.gitignore
+      ? normalizePath(resolve(typeof options.gitignore === 'string' ? options.gitignore : DEFAULT_GITIGNORE_FILE))
+      : undefined,
+    shopifyignore: options?.shopifyignore ? normalizePath(join(themeRoot, SHOPIFY_IGNORE_FILE)) : undefined,
+    cache:
+      options?.cache === false
+        ? undefined
+        : normalizePath(resolve(withRootName(options?.cache ?? DEFAULT_CACHE_FILE, name))),
+    dryRun: options?.dryRun ?? false,
+    collisions: options?.collisions ?? 'warn-first-wins',
+    strict: options?.strict ?? false,
+    failOnError: options?.failOnError ?? false,
+    hooks: {
+      onAssetCopied: options?.onAssetCopied,
+      onAssetDeleted: options?.onAssetDeleted,
+      onAssetSkipped: options?.onAssetSkipped,
+      onError: options?.onError,
+    },
     onServe: options?.onServe ?? true,
     onBuild: options?.onBuild ?? true,
     onWatch: options?.onWatch ?? true,
-    silent: options?.silent ?? true,
+    debounce: Math.max(options?.debounce ?? DEFAULT_DEBOUNCE, 0),
+    logLevel,
+    report: options?.report
+      ? normalizePath(
+          resolve(withRootName(typeof options.report === 'string' ? options.report : DEFAULT_REPORT_FILE, name)),
+        )
+      : undefined,
   };
-};
+}
+
+/**
+ * Applies the target overrides of a theme root.
+ *
+ * @param {Array<string | Target>} targets - Targets, as defined in plugin options.
+ * @param {Record<string, Partial<Target> | false>} overrides - Target overrides of the theme root, by target source.
+ * @param {string} name - Name of the theme root.
+ * @returns The targets of the theme root.
+ */
+function overrideTargets(
+  targets: Array<string | Target> = [],
+  overrides: Record<string, Partial<Target> | false>,
+  name: string,
+): Array<string | Target> {
+  const sources = new Set(targets.map((target) => (typeof target === 'string' ? target : target.src)));
+  const unknownSource = Object.keys(overrides).find((src) => !sources.has(src));
+  if (unknownSource) {
+    throw new Error(
+      `[shopify-assets] The "${unknownSource}" override of the ${name} theme root does not match any target`,
+    );
+  }
+
+  return targets.flatMap((target) => {
+    const override = overrides[typeof target === 'string' ? target : target.src];
+    if (override === false) return [];
+    if (!override) return [target];
+
+    return [{ ...(typeof target === 'string' ? { src: target } : target), ...override }];
+  });
+}
+
+/**
+ * Adds the name of the theme root to a file path shared by all theme roots (eg: the content cache),
+ * so that each theme root writes its own file: `content.json` -> `content.eu.json`.
+ */
+function withRootName(file: string, name?: string): string {
+  if (!name) return file;
+
+  const { dir, name: fileName, ext } = parse(file);
+  return join(dir, `${fileName}.${name.replace(/[^\w-]+/g, '-')}${ext}`);
+}
 
 /**
  *
  * @param [string] themeRoot - Theme root directory, as defined in plugin options.
  * @param {Target} target - Target object, as defined in plugin options.
- * @param {boolean} [silent] - Whether to suppress console output.
+ * @param {boolean} [silent] - Whether to suppress the warnings.
  * @returns `undefined` if `target.cleanMatch` is not set or is invalid, otherwise returns the resolved glob pattern.
  */
 function resolveCleanMatch(themeRoot: string, target: Target, silent: boolean = true): string | undefined {
@@ -304,3 +1203,97 @@ function resolveCleanMatch(themeRoot: string, target: Target, silent: boolean =
 
   return normalizePath(join(themeRoot, target.dest, target.cleanMatch));
 }
+
+/**
+ * @param {boolean | SvgSnippetOptions} [svgSnippet] - SVG snippet options, as defined in the target.
+ * @returns `undefined` if `target.svgSnippet` is not enabled, otherwise returns the options with defaults.
+ */
+function resolveSvgSnippet(svgSnippet?: boolean | SvgSnippetOptions): ResolvedSvgSnippetOptions | undefined {
+  if (!svgSnippet) {
+    return undefined;
+  }
+
+  const { className, size, comment = false } = svgSnippet === true ? {} : svgSnippet;
+
+  return { className, size, comment };
+}
+
+/**
+ * @param {string} dest - Resolved target destination folder.
+ * @param {boolean | SpriteOptions} [sprite] - Sprite options, as defined in the target.
+ * @returns `undefined` if `target.sprite` is not enabled, otherwise returns the options with resolved paths.
+ */
+function resolveSprite(dest: string, sprite?: boolean | SpriteOptions): ResolvedSpriteOptions | undefined {
+  if (!sprite) {
+    return undefined;
+  }
+
+  const {
+    fileName = 'icon-sprite.liquid',
+    iconSnippet = 'icon.liquid',
+    idPrefix = 'icon-',
+  } = sprite === true ? {} : sprite;
+
+  return {
+    file: normalizePath(join(dest, fileName)),
+    iconSnippet: iconSnippet ? normalizePath(join(dest, iconSnippet)) : undefined,
+    idPrefix,
+  };
+}
+
+/**
+ * @param {string} themeRoot - Theme root directory, as defined in plugin options.
+ * @param {boolean | FontFaceOptions} [fontFace] - Font face options, as defined in the target.
+ * @returns `undefined` if `target.fontFace` is not enabled, otherwise returns the options with defaults.
+ */
+function resolveFontFace(themeRoot: string, fontFace?: boolean | FontFaceOptions): ResolvedFontFaceOptions | undefined {
+  if (!fontFace) {
+    return undefined;
+  }
+
+  const {
+    snippet = DEFAULT_FONT_FACE_SNIPPET,
+    fonts = {},
+    display = 'swap',
+    preload = false,
+  } = fontFace === true ? {} : fontFace;
+
+  return { file: normalizePath(join(themeRoot, snippet)), fonts, display, preload };
+}
+
+/**
+ * @param {string} themeRoot - Theme root directory, as defined in plugin options.
+ * @param {boolean | SettingsSchemaOptions} [settingsSchema] - Settings schema options, as defined in the target.
+ * @returns `undefined` if `target.settingsSchema` is not enabled, otherwise returns the resolved file path.
+ */
+function resolveSettingsSchema(
+  themeRoot: string,
+  settingsSchema?: boolean | SettingsSchemaOptions,
+): ResolvedSettingsSchemaOptions | undefined {
+  if (!settingsSchema) {
+    return undefined;
+  }
+
+  const { file = DEFAULT_SETTINGS_SCHEMA_FILE } = settingsSchema === true ? {} : settingsSchema;
+
+  return { file: normalizePath(join(themeRoot, file)) };
+}
+
+/**
+ * @param {string} themeRoot - Theme root directory, as defined in plugin options.
+ * @param {boolean | ManifestOptions} [manifest] - Manifest options, as defined in plugin options.
+ * @returns `undefined` if the manifest is disabled, otherwise returns the resolved manifest file paths.
+ */
+function resolveManifest(themeRoot: string, manifest?: boolean | ManifestOptions): ResolvedManifestOptions | undefined {
+  if (manifest === false) {
+    return undefined;
+  }
+
+  const { json = DEFAULT_MANIFEST_JSON, snippet = DEFAULT_MANIFEST_SNIPPET } =
+    manifest === true ? {} : (manifest ?? {});
+
+  return {
+    json: json ? normalizePath(join(themeRoot, json)) : undefined,
+    snippet: snippet ? normalizePath(join(themeRoot, snippet)) : undefined,
+  };
+}
@@ -0,0 +1,76 @@
+import type { ChangeEvent } from 'rollup';
+
+export type WriteQueue = {
+  /**
+   * Queues the change of a source file, collapsed with its pending changes, and (re)starts the debounce window.
+   */
+  push: (file: string, event: ChangeEvent) => void;
+  /**
+   * Writes the pending changes without waiting for the debounce window, and waits for all the batches being written.
+   */
+  flush: () => Promise<void>;
+};
+
+/**
+ * Collapses two successive changes of the same file into the change to apply:
+ * - `create` then `update` is a `create`, and `create` then `delete` is nothing to apply,
+ * - `delete` then `create` is an `update`,
+ * - otherwise, the last change wins.
+ *
+ * @param {ChangeEvent} [previous] - The pending change of the file.
+ * @param {ChangeEvent} next - The new change of the file.
+ * @returns The change to apply, or `undefined` when the changes cancel each other out.
+ */
+export const collapseChangeEvents = (previous: ChangeEvent | undefined, next: ChangeEvent): ChangeEvent | undefined => {
+  if (previous === 'create') return next === 'delete' ? undefined : 'create';
+  if (previous === 'delete') return next === 'delete' ? 'delete' : 'update';
+  if (previous === 'update' && next === 'create') return 'update';
+
+  return next;
+};
+
+/**
+ * Creates the write queue used on serve, so that a storm of events (eg: a git branch switch) is written
+ * as a single batch once no event was received for `debounce` milliseconds. Batches never overlap, and a failed
+ * batch never stops the next ones.
+ *
+ * @param {number} debounce - The debounce window, in milliseconds.
+ * @param {Function} write - Writes a batch of changes, by source file.
+ * @param {Function} onError - Called with the error of a failed batch.
+ * @returns The write queue.
+ */
+export const createWriteQueue = (
+  debounce: number,
+  write: (changes: Map<string, ChangeEvent>) => Promise<void>,
+  onError: (error: unknown) => void,
+): WriteQueue => {
+  const pending = new Map<string, ChangeEvent>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let writing: Promise<void> = Promise.resolve();
+
+  const writePending = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    if (pending.size) {
+      const changes = new Map(pending);
+      pending.clear();
+      writing = writing.then(() => write(changes)).catch(onError);
+    }
+
+    return writing;
+  };
+
+  return {
+    push(file, event) {
+      const change = collapseChangeEvents(pending.get(file), event);
+      if (change) pending.set(file, change);
+      else pending.delete(file);
+
+      clearTimeout(timer);
+      timer = setTimeout(() => void writePending(), debounce);
+    },
+
+    flush: writePending,
+  };
+};
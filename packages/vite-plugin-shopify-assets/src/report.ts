@@ -0,0 +1,231 @@
+import { basename, dirname, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+
+import { normalizePath } from 'vite';
+
+import { flattenAssetMap } from './assets.js';
+
+import type { AssetCollision, AssetMap } from './assets.js';
+import type { AssetEvent, AssetHooks, CollisionStrategy } from './options.js';
+
+export type ReportAction = 'copied' | 'unchanged' | 'skipped' | 'renamed' | 'deduplicated' | 'deleted';
+
+export type ReportFileEntry = {
+  action: ReportAction;
+  /**
+   * Source file, relative to the project root. Undefined for cleaned files without a source.
+   */
+  src?: string;
+  /**
+   * Destination file, relative to the project root. For `deduplicated` files, the destination they were ignored for.
+   */
+  dest: string;
+  /**
+   * Source glob pattern of the target, relative to the project root.
+   */
+  target?: string;
+  /**
+   * Size of the destination file, in bytes (copied and unchanged files only).
+   */
+  size?: number;
+  reason?: string;
+};
+
+export type ReportErrorEntry = {
+  src?: string;
+  dest: string;
+  target?: string;
+  message: string;
+};
+
+export type ReportTargetEntry = {
+  target: string;
+  copied: number;
+  unchanged: number;
+  skipped: number;
+  deleted: number;
+  failed: number;
+  /**
+   * Total size of the copied and unchanged files, in bytes.
+   */
+  size: number;
+  /**
+   * Total time spent copying and deleting the files of the target, in milliseconds.
+   */
+  duration: number;
+};
+
+export type BuildReport = {
+  version: number;
+  summary: Record<ReportAction | 'failed', number>;
+  targets: ReportTargetEntry[];
+  files: ReportFileEntry[];
+  errors: ReportErrorEntry[];
+};
+
+export type Reporter = {
+  /**
+   * Lifecycle hooks recording every copied, skipped and deleted file, and every error.
+   */
+  hooks: AssetHooks;
+  /**
+   * Records the files renamed or deduplicated by the collision strategy.
+   */
+  addCollisions: (collisions: AssetCollision[], strategy: CollisionStrategy) => void;
+  /**
+   * Records the files renamed by the `rename` option of their target.
+   */
+  addRenames: (assetMap: AssetMap) => void;
+  /**
+   * Forgets all the recorded files, once the report is written. Files recorded until the next build
+   * (eg: deleted in watch mode) go in its report.
+   */
+  reset: () => void;
+  /**
+   * Writes the report file.
+   */
+  save: () => Promise<void>;
+};
+
+const toRelative = (file: string) => normalizePath(relative(process.cwd(), file));
+
+/**
+ * Creates the build reporter, which records the plugin actions through the lifecycle hooks
+ * and writes them as a JSON report, sorted to be compared between releases.
+ *
+ * @param {string} reportFile - Absolute path of the report file.
+ * @param {boolean} [dryRun] - Whether the report file should never be written.
+ * @returns The build reporter.
+ */
+export const createReporter = (reportFile: string, dryRun: boolean = false): Reporter => {
+  const files: ReportFileEntry[] = [];
+  const errors: ReportErrorEntry[] = [];
+  const targets = new Map<string, ReportTargetEntry>();
+
+  const getTarget = (target: string): ReportTargetEntry => {
+    const entry = targets.get(target) ?? {
+      target,
+      copied: 0,
+      unchanged: 0,
+      skipped: 0,
+      deleted: 0,
+      failed: 0,
+      size: 0,
+      duration: 0,
+    };
+    targets.set(target, entry);
+    return entry;
+  };
+
+  const record = async (action: 'copied' | 'unchanged' | 'skipped' | 'deleted', event: AssetEvent) => {
+    const entry: ReportFileEntry = { action, src: event.src && toRelative(event.src), dest: toRelative(event.dest) };
+    if (event.target) entry.target = toRelative(event.target.src);
+    if ((action === 'copied' || action === 'unchanged') && existsSync(event.dest)) {
+      entry.size = (await stat(event.dest)).size;
+    }
+    if (event.reason && action !== 'unchanged') entry.reason = event.reason;
+    files.push(entry);
+
+    if (!entry.target) return;
+
+    const targetEntry = getTarget(entry.target);
+    targetEntry[action]++;
+    targetEntry.size += entry.size ?? 0;
+    targetEntry.duration += event.duration ?? 0;
+  };
+
+  return {
+    hooks: {
+      onAssetCopied: (event) => record('copied', event),
+      onAssetSkipped: (event) => record(event.reason === 'unchanged' ? 'unchanged' : 'skipped', event),
+      onAssetDeleted: (event) => record('deleted', event),
+      onError: (error, event) => {
+        const target = event.target && toRelative(event.target.src);
+        errors.push({
+          src: event.src && toRelative(event.src),
+          dest: toRelative(event.dest),
+          target,
+          message: error.message,
+        });
+        if (target) getTarget(target).failed++;
+      },
+    },
+
+    addCollisions(collisions, strategy) {
+      for (const { dest, sources, dests } of collisions) {
+        sources.forEach((src, index) => {
+          const resolvedDest = dests[index];
+
+          if (!resolvedDest) {
+            files.push({
+              action: 'deduplicated',
+              src: toRelative(src),
+              dest: toRelative(dests[0] ?? dest),
+              reason: strategy,
+            });
+          } else if (strategy === 'prefix-path' || strategy === 'hash-suffix') {
+            files.push({ action: 'renamed', src: toRelative(src), dest: toRelative(resolvedDest), reason: strategy });
+          }
+        });
+      }
+    },
+
+    addRenames(assetMap) {
+      for (const [src, output] of flattenAssetMap(assetMap)) {
+        if (!output.rename || basename(output.dest) === basename(src)) continue;
+
+        const entry: ReportFileEntry = {
+          action: 'renamed',
+          src: toRelative(src),
+          dest: toRelative(output.dest),
+          target: toRelative(output.src),
+          reason: 'rename',
+        };
+        // Files renamed by the collision strategy are already recorded.
+        if (files.some(({ action, src, dest }) => action === 'renamed' && src === entry.src && dest === entry.dest)) {
+          continue;
+        }
+        files.push(entry);
+      }
+    },
+
+    reset() {
+      files.length = 0;
+      errors.length = 0;
+      targets.clear();
+    },
+
+    async save() {
+      if (dryRun) return;
+
+      const sortedFiles = [...files].sort(
+        (a, b) =>
+          a.dest.localeCompare(b.dest) || a.action.localeCompare(b.action) || (a.src ?? '').localeCompare(b.src ?? ''),
+      );
+      const summary = {
+        copied: 0,
+        unchanged: 0,
+        skipped: 0,
+        renamed: 0,
+        deduplicated: 0,
+        deleted: 0,
+        failed: errors.length,
+      };
+      sortedFiles.forEach(({ action }) => summary[action]++);
+
+      const report: BuildReport = {
+        version: 1,
+        summary,
+        targets: Array.from(targets.values())
+          .map((entry) => ({ ...entry, duration: Math.round(entry.duration) }))
+          .sort((a, b) => a.target.localeCompare(b.target)),
+        files: sortedFiles,
+        errors: [...errors].sort((a, b) => a.dest.localeCompare(b.dest)),
+      };
+
+      await mkdir(dirname(reportFile), { recursive: true });
+      await writeFile(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+    },
+  };
+};
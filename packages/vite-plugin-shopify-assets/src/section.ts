@@ -0,0 +1,71 @@
+import { dirname, join, parse } from 'node:path';
+import { existsSync } from 'node:fs';
+
+import { normalizePath } from 'vite';
+
+import type { AssetMap } from './assets.js';
+
+/**
+ * Extensions of the section schema files, in lookup order.
+ */
+const SECTION_SCHEMA_EXTENSIONS = ['json', 'ts', 'mts', 'js', 'mjs'];
+
+const SECTION_SCHEMA_REGEX = new RegExp(`\\.schema\\.(?:${SECTION_SCHEMA_EXTENSIONS.join('|')})$`);
+
+const SCHEMA_TAG_REGEX = /{%-?\s*schema\s*-?%}/;
+
+/**
+ * Returns the schema file of a section, next to its Liquid markup: `section-a.liquid` -> `section-a.schema.json`
+ * (or `.ts`, `.mts`, `.js`, `.mjs`).
+ *
+ * @param {string} src - Absolute path of the section markup.
+ * @returns The absolute path of the schema file, or `undefined` when the section has none.
+ */
+export const findSectionSchema = (src: string): string | undefined => {
+  const { dir, name } = parse(src);
+
+  return SECTION_SCHEMA_EXTENSIONS.map((ext) => normalizePath(join(dir, `${name}.schema.${ext}`))).find((file) =>
+    existsSync(file),
+  );
+};
+
+/**
+ * Returns the section markup a schema file belongs to, when that section is in the asset map
+ * (so that a schema change regenerates its section).
+ *
+ * @param {string} file - Absolute path of a changed file.
+ * @param {AssetMap} assetMap - The current asset map.
+ * @returns The absolute path of the section markup, or `undefined` when the file is not a section schema.
+ */
+export const getSchemaSection = (file: string, assetMap: AssetMap): string | undefined => {
+  if (!SECTION_SCHEMA_REGEX.test(file)) return undefined;
+
+  const section = normalizePath(join(dirname(file), `${parse(file).name.replace(/\.schema$/, '')}.liquid`));
+  const outputs = assetMap.get(section);
+
+  return outputs?.some((output) => output.sectionSchema) ? section : undefined;
+};
+
+/**
+ * Returns a glob pattern matching the schema files (and their temporary bundles) under the base directory
+ * of a target, so they are not copied.
+ *
+ * @param {string} base - Absolute base directory of the target source pattern.
+ * @returns The normalized absolute glob pattern.
+ */
+export const getSectionSchemaGlob = (base: string): string => normalizePath(join(base, '**/*.schema.*'));
+
+/**
+ * Attaches a `{% schema %}` block to the markup of a section.
+ *
+ * @param {string} markup - Liquid markup of the section, without schema.
+ * @param {unknown} schema - Section schema.
+ * @returns The section content.
+ */
+export const attachSectionSchema = (markup: string, schema: unknown): string => {
+  if (SCHEMA_TAG_REGEX.test(markup)) {
+    throw new Error('The section markup already has a {% schema %} block, remove it or its schema file');
+  }
+
+  return `${markup.trimEnd()}\n\n{% schema %}\n${JSON.stringify(schema, null, 2)}\n{% endschema %}\n`;
+};
@@ -1,37 +1,259 @@
-import { parse, relative, resolve } from 'node:path';
+import { relative, resolve } from 'node:path';
 import { existsSync, mkdirSync } from 'node:fs';
-import { unlink } from 'node:fs/promises';
 
-import picomatch from 'picomatch';
-import fg from 'fast-glob';
-import { normalizePath } from 'vite';
+import {
+  createLevelLogger,
+  isLogLevelEnabled,
+  logError,
+  logEventIgnored,
+  logInfo,
+  logWarn,
+  mergeHooks,
+  toError,
+} from './utils.js';
+import {
+  flattenAssetMap,
+  isGeneratorTarget,
+  matchTargets,
+  reportCollisions,
+  resolveAssetMap,
+  syncAssetMap,
+} from './assets.js';
+import { reportViolations, validateAssetMap } from './validate.js';
+import { getOutputFiles, syncAssets } from './sync.js';
+import { writeGeneratedFiles } from './generate.js';
+import { writeFontFaces } from './fonts.js';
+import { getSchemaSection } from './section.js';
+import { getCssUrlsSources } from './css.js';
+import { reportShopifyIgnored, writeIgnoreFiles } from './ignore.js';
+import { writeManifest } from './manifest.js';
+import { createLedger } from './ledger.js';
+import { createContentCache } from './cache.js';
+import { createFailureCollector } from './failures.js';
+import { createWriteQueue } from './queue.js';
 
-import { copyAllAssets, copyAsset, deleteAsset, logEvent, logEventIgnored, logWarn, renameFile } from './utils.js';
+import type { Logger, Plugin, ViteDevServer } from 'vite';
+import type { ChangeEvent } from 'rollup';
+import type { AssetMap, SyncResults } from './assets.js';
+import type { AssetManifest } from './manifest.js';
+import type { ResolvedPluginShopifyAssetsOptions, ResolvedTarget } from './options.js';
 
-import type { Logger, Plugin } from 'vite';
-import type { ResolvedPluginShopifyAssetsOptions } from './options.js';
-
-export const servePlugin = ({
-  publicDir,
-  themeRoot,
-  themeAssetsDir,
-  targets,
-  silent,
-  onServe,
-}: ResolvedPluginShopifyAssetsOptions): Plugin => {
+export const servePlugin = (options: ResolvedPluginShopifyAssetsOptions): Plugin => {
+  const {
+    name: rootName,
+    publicDir,
+    themeRoot,
+    themeAssetsDir,
+    targets,
+    manifest: manifestOptions,
+    ledger: ledgerFile,
+    preserve,
+    gitignore,
+    shopifyignore,
+    cache: cacheFile,
+    dryRun,
+    collisions,
+    strict,
+    failOnError,
+    hooks: userHooks,
+    logLevel,
+    onServe,
+    debounce,
+  } = options;
   let logger: Logger;
+  let server: ViteDevServer | undefined;
   const currentDir = resolve();
 
+  /**
+   * The ownership ledger, with all files written by the plugin (only those can be cleaned).
+   */
+  const ledger = createLedger(themeRoot, ledgerFile, preserve, dryRun);
+
+  /**
+   * The content cache, to skip the unchanged files.
+   */
+  const cache = createContentCache(cacheFile, dryRun);
+
+  /**
+   * The failure collector, to show copy and delete errors in the Vite error overlay (with `failOnError`).
+   */
+  const failures = failOnError ? createFailureCollector() : undefined;
+
+  /**
+   * The user lifecycle hooks, and the ones of the failure collector.
+   */
+  const hooks = mergeHooks(failures?.hooks, userHooks);
+
+  /**
+   * Logs the copy and delete errors collected with `failOnError`, and shows them in the Vite error overlay
+   * (sent to the browser as soon as it connects).
+   */
+  const reportFailures = () => {
+    const error = failures?.flush();
+    if (!error) return;
+
+    logger.error(error.message, { timestamp: true });
+    server?.ws.send({
+      type: 'error',
+      err: { message: error.message, stack: error.stack ?? '', plugin: 'vite-plugin-shopify-assets' },
+    });
+  };
+
+  /**
+   * A map with all fingerprinted source asset files, and their current manifest entry.
+   */
+  const manifest: AssetManifest = new Map();
+
+  /**
+   * A map with all the copied source asset files (keys), and their corresponding resolved target (values).
+   */
+  let assetMap: AssetMap = new Map();
+
+  /**
+   * Writes a batch of changes of the source files (see `createWriteQueue`), and logs a summary line.
+   */
+  const writeChanges = async (changes: Map<string, ChangeEvent>): Promise<void> => {
+    try {
+      const matchedTargets = new Set<ResolvedTarget>();
+      const copiedChanges = new Map<string, ChangeEvent>();
+      let matchedCount = 0;
+
+      for (const [file, event] of changes) {
+        const { matched, ignored } = matchTargets(targets, file);
+
+        if (ignored) {
+          const relativeIgnored = relative(themeAssetsDir, file);
+          logEventIgnored(event, relativeIgnored, logger, true);
+          continue;
+        }
+
+        if (matched.length) matchedCount++;
+        matched.forEach((target) => matchedTargets.add(target));
+        if (matched.some((target) => !isGeneratorTarget(target))) copiedChanges.set(file, event);
+      }
+
+      if (!matchedTargets.size) return;
+
+      // Any change to the source of a generator target (sprite, locales, settings schema) requires its files to be regenerated.
+      for (const target of matchedTargets) {
+        if (isGeneratorTarget(target)) {
+          await writeGeneratedFiles(target, logger, { timestamp: true, ledger, cache, hooks, dryRun });
+        }
+      }
+
+      let results: SyncResults | undefined;
+
+      if (copiedChanges.size) {
+        // A created or deleted file can change the destination of other files (collisions), so the
+        // whole asset map is resolved again, exactly like on build, and only the difference is applied.
+        const previousAssetMap = assetMap;
+        const resolved = await resolveAssetMap(targets, { publicDir, collisions, mode: 'serve' });
+        // Only the collisions introduced by new files are reported, the others were reported on start.
+        const created = [...copiedChanges].filter(([, event]) => event === 'create').map(([file]) => file);
+        if (created.length) {
+          const newCollisions = resolved.collisions.filter(({ sources }) =>
+            sources.some((src) => created.includes(src)),
+          );
+          reportCollisions(newCollisions, logger, {
+            collisions,
+            publicDir,
+            timestamp: true,
+          });
+        }
+
+        // Only the assets of the changed files are validated, the others were validated on start.
+        const changedAssetMap = new Map([...resolved.assetMap].filter(([src]) => copiedChanges.has(src)));
+        reportViolations(await validateAssetMap(changedAssetMap, themeRoot), logger, {
+          publicDir,
+          strict,
+          timestamp: true,
+        });
+        await reportShopifyIgnored(
+          flattenAssetMap(changedAssetMap).map(([, output]) => output.dest),
+          themeRoot,
+          logger,
+          { timestamp: true },
+        );
+
+        assetMap = resolved.assetMap;
+
+        // Stylesheets with rewritten references are copied again when a destination is created, deleted or renamed.
+        const changed = new Set(copiedChanges.keys());
+        const destsChanged = [...copiedChanges.keys()].some((file) => {
+          const previousDests = (previousAssetMap.get(file) ?? []).map((output) => output.dest).join();
+          const nextDests = (assetMap.get(file) ?? []).map((output) => output.dest).join();
+          return previousDests !== nextDests;
+        });
+        if (destsChanged) getCssUrlsSources(assetMap).forEach((src) => changed.add(src));
+
+        results = await syncAssetMap(previousAssetMap, assetMap, logger, {
+          naming: { publicDir, mode: 'serve' },
+          changed,
+          timestamp: true,
+          manifest,
+          ledger,
+          cache,
+          hooks,
+          dryRun,
+        });
+
+        // A created, deleted or renamed (fingerprinted) font changes the font faces snippet of its target.
+        for (const target of matchedTargets) {
+          await writeFontFaces(target, assetMap, logger, { timestamp: true, ledger, hooks, dryRun });
+        }
+
+        if (manifestOptions) {
+          await writeManifest(manifest, manifestOptions, logger, { timestamp: true, ledger, hooks, dryRun });
+        }
+      }
+
+      // Created and deleted files change the managed blocks of the ignore files.
+      if (gitignore || shopifyignore) {
+        await writeIgnoreFiles(await getOutputFiles(options, assetMap), options, logger, true);
+      }
+
+      reportFailures();
+
+      await ledger.save();
+      await cache.save();
+
+      const summary = Object.entries(results ?? {})
+        .filter(([, count]) => count > 0)
+        .map(([result, count]) => `${count} ${result}`)
+        .join(', ');
+      logInfo(
+        `${matchedCount} file${matchedCount > 1 ? 's' : ''} changed${summary ? ` - ${summary}` : ''}`,
+        logger,
+        true,
+      );
+    } catch (error: unknown) {
+      // A failed batch is only logged: the next changes are still written.
+      const message = error instanceof Error ? error.message : 'An unknown error occurred while copying files';
+      logError(message, logger, true);
+    }
+  };
+
+  /**
+   * The write queue, collapsing the changes received during the debounce window into a single batch.
+   */
+  const queue = createWriteQueue(debounce, writeChanges, (error) => logError(toError(error).message, logger, true));
+
   return {
-    name: 'vite-plugin-shopify-assets:serve',
+    name: `vite-plugin-shopify-assets:serve${rootName ? `:${rootName}` : ''}`,
     apply: 'serve',
 
     config: () => ({
       publicDir,
     }),
 
+    configureServer(_server): void {
+      server = _server;
+    },
+
     configResolved(_config): void {
-      logger = _config.logger;
+      logger = createLevelLogger(_config.logger, logLevel, rootName);
+
+      if (dryRun) logWarn('Dry run enabled - no files will be written or deleted', logger);
 
       if (targets.length > 0 && !existsSync(publicDir)) {
         const relativePublicDir = relative(currentDir, publicDir);
@@ -39,7 +261,7 @@ export const servePlugin = ({
           `Your publicDir does not exist, creating it at ${relativePublicDir}/ - Use this folder to store the source static assets for your Shopify theme`,
           logger,
         );
-        mkdirSync(publicDir);
+        if (!dryRun) mkdirSync(publicDir);
       }
 
       if (!existsSync(themeAssetsDir)) {
@@ -48,92 +270,32 @@ export const servePlugin = ({
           `Your Shopify theme assets folder does not exist - creating it at ${relativeThemeAssetsDir}/ - Your static assets will be copied to this folder`,
           logger,
         );
-        mkdirSync(themeAssetsDir);
+        if (!dryRun) mkdirSync(themeAssetsDir, { recursive: true });
       }
     },
 
     async buildStart(): Promise<void> {
       if (!onServe) {
-        if (!silent) logWarn('Skipping serve', logger);
+        if (isLogLevelEnabled(logLevel, 'verbose')) logWarn('Skipping serve', logger);
         return;
       }
 
-      // Check if there are assets to clean (destination must be other than '<themeRoot>/assets')
       // Note: buildStart will only be run once on serve. Because we're using publicDir to watch files
       // vite should trigger the watchChange hook, which will take care of cleaning these special assets.
-      for (const target of targets) {
-        if (!target.cleanMatch) continue;
-
-        const assetFiles = await fg(normalizePath(target.src), { ignore: target.ignore });
-        if (!assetFiles.length) continue;
-
-        // We need to keep track of the files we want to keep to avoid
-        // having Shopify CLI deleting and reuploading them moments later.
-        const filesToKeep = [];
-        for (const src of assetFiles) {
-          const { base: file } = parse(src);
-          const resolvedDest = target.rename
-            ? normalizePath(resolve(target.dest, await renameFile(file, src, target.rename)))
-            : normalizePath(resolve(target.dest, file));
-          filesToKeep.push(resolvedDest);
-        }
-
-        const filesToDelete = await fg(target.cleanMatch, { ignore: filesToKeep });
-        if (!filesToDelete.length) continue;
-
-        await Promise.all(
-          filesToDelete.map(async (file) =>
-            existsSync(file) ? unlink(file).then(() => Promise.resolve(file)) : Promise.resolve(file),
-          ),
-        )
-          .then((results) => {
-            if (!results.length) return;
-            for (const fileDeleted of results) {
-              const relativePath = relative(themeRoot, fileDeleted);
-              logEvent('delete', relativePath, logger, true);
-            }
-          })
-          .catch((error: unknown) => {
-            if (silent) return;
-            const message = error instanceof Error ? error.message : 'An unknown error occurred while deleting files';
-            logger.error(message);
-          });
-      }
-
-      // Copy all assets to the theme assets directory.
-      for (const target of targets) {
-        await copyAllAssets(target, logger, { silent, timestamp: true });
-      }
+      assetMap = await syncAssets(options, { logger, ledger, manifest, cache, hooks, mode: 'serve', timestamp: true });
+      reportFailures();
     },
 
-    async watchChange(fileChanged: string, { event }): Promise<void> {
+    watchChange(changedFile: string, { event: changeEvent }): void {
       if (!onServe) return;
 
-      const target = targets.find((_target) => picomatch(_target.src)(fileChanged));
-      if (!target) return;
-
-      if (target.ignore.some((glob) => picomatch(glob)(fileChanged))) {
-        const relativeIgnored = relative(themeAssetsDir, fileChanged);
-        logEventIgnored(event, relativeIgnored, logger, true);
-        return;
-      }
-
-      switch (event) {
-        case 'create':
-        case 'update':
-          return copyAsset(target, fileChanged, event, logger, silent).catch((error: unknown) => {
-            if (silent) return;
-            const message = error instanceof Error ? error.message : 'An unknown error occurred while copying files';
-            logger.error(message);
-          });
+      // A section schema change is a change of its section, which the schema is attached to.
+      const schemaSection = getSchemaSection(changedFile, assetMap);
+      queue.push(schemaSection ?? changedFile, schemaSection ? 'update' : changeEvent);
+    },
 
-        case 'delete':
-          return deleteAsset(target, fileChanged, event, logger, silent).catch((error: unknown) => {
-            if (silent) return;
-            const message = error instanceof Error ? error.message : 'An unknown error occurred while deleting files';
-            logger.error(message);
-          });
-      }
+    async closeBundle(): Promise<void> {
+      await queue.flush();
     },
   };
 };
@@ -0,0 +1,115 @@
+import { relative } from 'node:path';
+import { existsSync } from 'node:fs';
+
+import fg from 'fast-glob';
+import { normalizePath } from 'vite';
+
+import { loadJsonModule, logError, toError, writeFileIfChanged } from './utils.js';
+
+import type { Logger } from 'vite';
+import type { AssetHooks, ResolvedTarget } from './options.js';
+import type { Ledger } from './ledger.js';
+
+type SettingsGroup = {
+  name?: string;
+  settings?: Array<{ id?: string }>;
+  [key: string]: unknown;
+};
+
+const THEME_INFO_NAME = 'theme_info';
+
+const toRelative = (file: string) => normalizePath(relative(process.cwd(), file));
+
+const isSettingsGroup = (value: unknown): value is SettingsGroup =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Assembles the settings schema from its fragments, in order: each fragment is a settings group or an array of
+ * settings groups. The `theme_info` group is moved first, and setting ids must be unique across all fragments.
+ *
+ * @param {Array<[string, unknown]>} fragments - Source files and their JSON value, in order.
+ * @returns The settings schema.
+ * @throws When a fragment is not a settings group, when `theme_info` is defined more than once, or when setting ids are duplicated.
+ */
+export const buildSettingsSchema = (fragments: Array<[string, unknown]>): SettingsGroup[] => {
+  const groups: Array<[string, SettingsGroup]> = [];
+
+  for (const [src, fragment] of fragments) {
+    for (const group of Array.isArray(fragment) ? (fragment as unknown[]) : [fragment]) {
+      if (!isSettingsGroup(group)) throw new Error(`${toRelative(src)} must export settings groups (objects)`);
+      groups.push([src, group]);
+    }
+  }
+
+  const themeInfo = groups.filter(([, group]) => group.name === THEME_INFO_NAME);
+  if (themeInfo.length > 1) {
+    throw new Error(
+      `The ${THEME_INFO_NAME} group is defined in ${themeInfo.map(([src]) => toRelative(src)).join(' and ')}`,
+    );
+  }
+
+  const settingSources = new Map<string, string>();
+  const duplicates: string[] = [];
+
+  for (const [src, group] of groups) {
+    for (const { id } of group.settings ?? []) {
+      if (!id) continue;
+
+      const source = settingSources.get(id);
+      if (source) duplicates.push(`"${id}" is defined in ${toRelative(source)} and ${toRelative(src)}`);
+      else settingSources.set(id, src);
+    }
+  }
+
+  if (duplicates.length) {
+    throw new Error(`Setting ids must be unique:\n${duplicates.map((duplicate) => `  - ${duplicate}`).join('\n')}`);
+  }
+
+  return [...themeInfo, ...groups.filter(([, group]) => group.name !== THEME_INFO_NAME)].map(([, group]) => group);
+};
+
+/**
+ * Assembles the settings schema fragments of a target (sorted by path) into `config/settings_schema.json`,
+ * only written when its content changes.
+ *
+ * @param {ResolvedTarget} target - Resolved target, with `settingsSchema` options.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options, the ownership ledger and the lifecycle hooks.
+ */
+export const writeSettingsSchema = async (
+  target: ResolvedTarget,
+  logger: Logger,
+  options: {
+    timestamp?: boolean;
+    ledger?: Ledger;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  } = {
+    timestamp: false,
+  },
+): Promise<void> => {
+  if (!target.settingsSchema) return;
+
+  const { timestamp, ledger, hooks, dryRun } = options;
+  const { file } = target.settingsSchema;
+
+  try {
+    const files = (await fg(normalizePath(target.src), { ignore: target.ignore })).sort();
+    const fragments: Array<[string, unknown]> = [];
+
+    for (const src of files) {
+      try {
+        fragments.push([src, await loadJsonModule(src)]);
+      } catch (error: unknown) {
+        throw new Error(`${toRelative(src)}: ${toError(error).message}`);
+      }
+    }
+
+    const content = `${JSON.stringify(buildSettingsSchema(fragments), null, 2)}\n`;
+    await writeFileIfChanged(file, content, logger, { timestamp, ledger, target, hooks, dryRun });
+  } catch (error: unknown) {
+    logError(`could not create ${toRelative(file)}`, logger, timestamp);
+    if (error instanceof Error) logger.error(error.message);
+    await hooks?.onError?.(toError(error), { type: existsSync(file) ? 'update' : 'create', dest: file, target });
+  }
+};
@@ -0,0 +1,179 @@
+import { parse, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+
+import fg from 'fast-glob';
+import { normalizePath } from 'vite';
+
+import { DEFAULT_ICON_SIZE, getViewBox, getViewBoxSize, optimizeSvg } from './svg.js';
+import { logError, toError, writeFileIfChanged } from './utils.js';
+
+import type { Logger } from 'vite';
+import type { AssetHooks, ResolvedSpriteOptions, ResolvedTarget } from './options.js';
+import type { Ledger } from './ledger.js';
+import type { SvgSize } from './svg.js';
+
+const SVG_REGEX = /<svg\b([^>]*?)(?:\/>|>([\s\S]*)<\/svg>)/i;
+
+export type SvgSymbol = {
+  /**
+   * The `<symbol>` element markup.
+   */
+  markup: string;
+  viewBox?: string;
+};
+
+/**
+ * Converts an SVG file into a `<symbol>` element.
+ *
+ * @param {string} svg - SVG markup.
+ * @param {string} id - Symbol id.
+ * @returns The symbol, or `undefined` when the root `<svg>` element could not be found.
+ */
+const svgToSymbol = (svg: string, id: string): SvgSymbol | undefined => {
+  const match = SVG_REGEX.exec(optimizeSvg(svg));
+  if (!match) return undefined;
+
+  const viewBox = getViewBox(match[1] ?? '');
+
+  return { markup: `<symbol id="${id}"${viewBox ? ` viewBox="${viewBox}"` : ''}>${match[2] ?? ''}</symbol>`, viewBox };
+};
+
+/**
+ * Returns the symbol id of an icon, based on its file name.
+ * The prefix is not repeated when the file name already starts with it (eg: `icon-cart.svg` -> `icon-cart`).
+ */
+export const getSymbolId = (file: string, idPrefix: string): string => {
+  const { name } = parse(file);
+  return name.startsWith(idPrefix) ? name : `${idPrefix}${name}`;
+};
+
+/**
+ * Returns the absolute paths of the files generated by a sprite target.
+ */
+export const getSpriteFiles = (sprite: ResolvedSpriteOptions): string[] =>
+  sprite.iconSnippet ? [sprite.file, sprite.iconSnippet] : [sprite.file];
+
+/**
+ * Reads the SVG files of a sprite and converts them into symbols, sorted by path.
+ *
+ * @param {string[]} files - Absolute paths of the SVG files.
+ * @param {ResolvedSpriteOptions} sprite - Resolved `target.sprite` options.
+ * @returns The symbols (SVG files without a root `<svg>` element are left out).
+ */
+export const readSymbols = async (files: string[], sprite: ResolvedSpriteOptions): Promise<SvgSymbol[]> => {
+  const symbols = await Promise.all(
+    files.sort().map(async (file) => svgToSymbol(await readFile(file, 'utf-8'), getSymbolId(file, sprite.idPrefix))),
+  );
+
+  return symbols.filter((symbol): symbol is SvgSymbol => Boolean(symbol));
+};
+
+/**
+ * Returns the default icon size of a sprite: the `viewBox` size shared by all its symbols,
+ * or 24 when they do not share the same size.
+ *
+ * @param {SvgSymbol[]} symbols - Symbols of the sprite.
+ * @returns The default width and height of the icons.
+ */
+export const getIconSize = (symbols: SvgSymbol[]): SvgSize => {
+  const sizes = symbols.map(({ viewBox }) => getViewBoxSize(viewBox));
+  const [first] = sizes;
+
+  return first && sizes.every((size) => size?.width === first.width && size.height === first.height)
+    ? first
+    : { width: String(DEFAULT_ICON_SIZE), height: String(DEFAULT_ICON_SIZE) };
+};
+
+/**
+ * Builds the sprite snippet content from its symbols.
+ *
+ * @param {SvgSymbol[]} symbols - Symbols of the sprite.
+ * @param {ResolvedSpriteOptions} sprite - Resolved `target.sprite` options.
+ * @returns The sprite snippet content.
+ */
+export const buildSprite = (symbols: SvgSymbol[], sprite: ResolvedSpriteOptions): string =>
+  `{% comment %}
+  SVG sprite generated by vite-plugin-shopify-assets - do not edit this file directly.
+  Render it once per page, then use the ${sprite.iconSnippet ? `'${parse(sprite.iconSnippet).name}'` : '<use>'} snippet to display an icon.
+{% endcomment %}
+<svg xmlns="http://www.w3.org/2000/svg" style="display: none">${symbols.map(({ markup }) => markup).join('')}</svg>
+`;
+
+/**
+ * Builds the companion snippet content, rendering a single icon from the sprite.
+ *
+ * @param {ResolvedSpriteOptions} sprite - Resolved `target.sprite` options.
+ * @param {SvgSize} size - Default width and height of the icons (see `getIconSize`).
+ * @returns The icon snippet content.
+ */
+export const buildIconSnippet = (sprite: ResolvedSpriteOptions, { width, height }: SvgSize): string => {
+  const name = sprite.iconSnippet ? parse(sprite.iconSnippet).name : 'icon';
+  const defaultSize = width === height ? width : `${width}x${height}`;
+
+  return `{% comment %}
+  Renders an icon from the SVG sprite generated by vite-plugin-shopify-assets.
+
+  Accepts:
+  - name: {String} Icon name, without the '${sprite.idPrefix}' prefix
+  - class: {String} Additional class names (optional)
+  - size: {Number} Width and height in pixels (default: ${defaultSize})
+
+  Usage:
+  {% render '${name}', name: 'cart', class: 'custom-class', size: ${width} %}
+{% endcomment %}
+<svg class="${sprite.idPrefix}{{ name }} {{ class }}" width="{{ size | default: ${width} }}" height="{{ size | default: ${height} }}" aria-hidden="true" focusable="false"><use href="#${sprite.idPrefix}{{ name }}"></use></svg>
+`;
+};
+
+/**
+ * Globs all SVG files of a sprite target and writes the sprite snippet (and its companion snippet).
+ *
+ * @param {ResolvedTarget} target - Resolved target, with `sprite` options.
+ * @param {Logger} logger - Vite logger.
+ * @param {object} options - Logging options, the ownership ledger and the lifecycle hooks.
+ */
+export const writeSprite = async (
+  target: ResolvedTarget,
+  logger: Logger,
+  options: {
+    timestamp?: boolean;
+    ledger?: Ledger;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  } = {
+    timestamp: false,
+  },
+): Promise<void> => {
+  if (!target.sprite) return;
+
+  const { timestamp, ledger, hooks, dryRun } = options;
+  const { file, iconSnippet } = target.sprite;
+  const relativePath = relative(process.cwd(), file);
+
+  try {
+    const symbols = await readSymbols(await fg(normalizePath(target.src), { ignore: target.ignore }), target.sprite);
+
+    await writeFileIfChanged(file, buildSprite(symbols, target.sprite), logger, {
+      timestamp,
+      ledger,
+      target,
+      hooks,
+      dryRun,
+    });
+
+    if (iconSnippet) {
+      await writeFileIfChanged(iconSnippet, buildIconSnippet(target.sprite, getIconSize(symbols)), logger, {
+        timestamp,
+        ledger,
+        target,
+        hooks,
+        dryRun,
+      });
+    }
+  } catch (error: unknown) {
+    logError(`could not create ${relativePath}`, logger, timestamp);
+    if (error instanceof Error) logger.error(error.message);
+    await hooks?.onError?.(toError(error), { type: existsSync(file) ? 'update' : 'create', dest: file, target });
+  }
+};
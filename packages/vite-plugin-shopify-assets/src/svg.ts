@@ -0,0 +1,144 @@
+import type { ResolvedSvgSnippetOptions } from './options.js';
+
+const SVG_ROOT_REGEX = /<svg\b([^>]*?)(\/?)>/i;
+
+/**
+ * Width and height of icons without a `viewBox` (nor fixed dimensions).
+ */
+export const DEFAULT_ICON_SIZE = 24;
+
+export type SvgSize = {
+  width: string;
+  height: string;
+};
+
+/**
+ * Returns the value of an attribute (double or single quoted) from the attributes of an element.
+ *
+ * @param {string} attributes - Attributes of the element, as written in the markup.
+ * @param {string} name - Attribute name.
+ * @returns The attribute value, or `undefined` when the attribute is not set.
+ */
+export const getSvgAttribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`\\s${name}=(?:"([^"]*)"|'([^']*)')`, 'i').exec(attributes);
+  return match ? (match[1] ?? match[2]) : undefined;
+};
+
+/**
+ * Returns the width and height of a `viewBox` attribute value, eg: `0 0 20 16` -> `{ width: '20', height: '16' }`.
+ *
+ * @param {string} [viewBox] - The `viewBox` attribute value.
+ * @returns The size, or `undefined` when the `viewBox` is missing or invalid.
+ */
+export const getViewBoxSize = (viewBox?: string): SvgSize | undefined => {
+  const [, , width = '', height = ''] = viewBox?.trim().split(/[\s,]+/) ?? [];
+  return Number(width) > 0 && Number(height) > 0 ? { width, height } : undefined;
+};
+
+/**
+ * Removes editor metadata, comments and extra whitespace from an SVG markup string.
+ *
+ * @param {string} svg - SVG markup.
+ * @returns The minified SVG markup.
+ */
+export const optimizeSvg = (svg: string): string =>
+  svg
+    .replace(/^\uFEFF/, '')
+    .replace(/<\?xml[\s\S]*?\?>/gi, '')
+    .replace(/<!DOCTYPE[\s\S]*?>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<metadata\b[\s\S]*?<\/metadata>/gi, '')
+    .replace(/<(sodipodi|inkscape):[\w-]+\b[^>]*?\/>/gi, '')
+    .replace(/<(sodipodi|inkscape):([\w-]+)\b[\s\S]*?<\/\1:\2>/gi, '')
+    .replace(/\s+(?:xmlns:)?(?:sodipodi|inkscape|sketch|serif)(?::[\w-]+)?=(?:"[^"]*"|'[^']*')/gi, '')
+    .replace(/\s+data-name=(?:"[^"]*"|'[^']*')/gi, '')
+    .replace(/\s+/g, ' ')
+    .replace(/>\s+</g, '><')
+    .trim();
+
+/**
+ * Returns the `viewBox` of the root `<svg>` element, derived from its fixed `width` and `height` when it is missing.
+ *
+ * @param {string} attributes - Attributes of the root `<svg>` element.
+ * @returns The `viewBox` attribute value, or `undefined` when it cannot be derived.
+ */
+export const getViewBox = (attributes: string): string | undefined => {
+  const viewBox = getSvgAttribute(attributes, 'viewBox');
+  if (viewBox) return viewBox;
+
+  const width = /^([\d.]+)(?:px)?$/i.exec(getSvgAttribute(attributes, 'width') ?? '')?.[1];
+  const height = /^([\d.]+)(?:px)?$/i.exec(getSvgAttribute(attributes, 'height') ?? '')?.[1];
+  return width && height ? `0 0 ${width} ${height}` : undefined;
+};
+
+/**
+ * Returns the attributes of the root `<svg>` element, without fixed `width` and `height`.
+ * A `viewBox` is derived from the removed dimensions when it is missing.
+ */
+const getRootAttributes = (attributes: string): { attributes: string; className?: string; viewBox?: string } => {
+  const viewBox = getViewBox(attributes);
+  const className = getSvgAttribute(attributes, 'class');
+
+  let resolved = attributes.replace(/\s+(?:width|height|class)=(?:"[^"]*"|'[^']*')/gi, '');
+
+  if (!getSvgAttribute(resolved, 'viewBox') && viewBox) {
+    resolved += ` viewBox="${viewBox}"`;
+  }
+
+  return { attributes: resolved, className, viewBox };
+};
+
+/**
+ * Converts an SVG file into a Liquid snippet, with `class` and `size` parameters
+ * on the root `<svg>` element. Unless set in the options, the default size is the `viewBox` size.
+ *
+ * @param {string} svg - SVG markup.
+ * @param {string} name - Snippet name, as used in `{% render %}`.
+ * @param {ResolvedSvgSnippetOptions} options - Resolved `target.svgSnippet` options.
+ * @returns The snippet content.
+ */
+export const svgToSnippet = (svg: string, name: string, options: ResolvedSvgSnippetOptions): string => {
+  const optimized = optimizeSvg(svg);
+  const match = SVG_ROOT_REGEX.exec(optimized);
+  if (!match) {
+    throw new Error(`[shopify-assets] Could not find the root <svg> element of ${name}`);
+  }
+
+  const root = getRootAttributes(match[1] ?? '');
+  const className = [root.className, options.className, '{{ class }}'].filter(Boolean).join(' ');
+  const defaultSize =
+    options.size === undefined
+      ? (getViewBoxSize(root.viewBox) ?? { width: String(DEFAULT_ICON_SIZE), height: String(DEFAULT_ICON_SIZE) })
+      : { width: String(options.size), height: String(options.size) };
+  const size =
+    options.size === false
+      ? ''
+      : ` width="{{ size | default: ${defaultSize.width} }}" height="{{ size | default: ${defaultSize.height} }}"`;
+
+  const snippet = optimized.replace(
+    SVG_ROOT_REGEX,
+    `<svg${root.attributes} class="${className}"${size}${match[2] ?? ''}>`,
+  );
+
+  if (!options.comment) {
+    return snippet;
+  }
+
+  const defaultSizeDoc =
+    defaultSize.width === defaultSize.height ? defaultSize.width : `${defaultSize.width}x${defaultSize.height}`;
+  const params = options.size === false ? '' : `, size: ${defaultSize.width}`;
+  const sizeDoc =
+    options.size === false ? '' : `\n  - size: {Number} Width and height in pixels (default: ${defaultSizeDoc})`;
+
+  return `{% comment %}
+  Renders the ${name} SVG icon.
+
+  Accepts:
+  - class: {String} Additional class names (optional)${sizeDoc}
+
+  Usage:
+  {% render '${name}', class: 'custom-class'${params} %}
+{% endcomment %}
+${snippet}
+`;
+};
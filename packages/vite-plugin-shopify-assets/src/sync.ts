@@ -0,0 +1,211 @@
+import { dirname, relative } from 'node:path';
+import { existsSync } from 'node:fs';
+import { unlink } from 'node:fs/promises';
+
+import fg from 'fast-glob';
+
+import {
+  copyAllAssetMap,
+  getHashVariantsGlob,
+  getLogicalName,
+  isLogLevelEnabled,
+  logDryRun,
+  logEvent,
+  toError,
+} from './utils.js';
+import { flattenAssetMap, reportCollisions, resolveAssetMap } from './assets.js';
+import { reportViolations, validateAssetMap } from './validate.js';
+import { getGeneratedOutputs, writeGeneratedFiles } from './generate.js';
+import { reportShopifyIgnored, writeIgnoreFiles } from './ignore.js';
+import { writeFontFaces } from './fonts.js';
+import { writeManifest } from './manifest.js';
+
+import type { Logger } from 'vite';
+import type { AssetMap } from './assets.js';
+import type { AssetManifest } from './manifest.js';
+import type { Ledger } from './ledger.js';
+import type { ContentCache } from './cache.js';
+import type { AssetEvent, AssetHooks, RenameMode, ResolvedPluginShopifyAssetsOptions } from './options.js';
+import type { ActionReason } from './utils.js';
+
+export type SyncContext = {
+  logger: Logger;
+  /**
+   * The ownership ledger, with all files written by the plugin (only those can be cleaned).
+   */
+  ledger: Ledger;
+  /**
+   * A map with all fingerprinted destination files, and their current manifest entry.
+   */
+  manifest: AssetManifest;
+  /**
+   * The content cache, to skip the unchanged files.
+   */
+  cache: ContentCache;
+  /**
+   * The lifecycle hooks: the user ones, plus the failure collector with `failOnError`.
+   */
+  hooks: AssetHooks;
+  /**
+   * The mode passed to `rename` functions.
+   */
+  mode: RenameMode;
+  timestamp?: boolean;
+};
+
+/**
+ * Resolves the asset map of the given options, and reports its collisions and Shopify theme violations.
+ * Collisions are resolved before anything is written: with the 'error' strategy (or `strict`), it throws right away.
+ */
+export const resolveAssets = async (
+  { publicDir, themeRoot, targets, collisions, strict }: ResolvedPluginShopifyAssetsOptions,
+  { logger, mode, timestamp }: SyncContext,
+): Promise<AssetMap> => {
+  const resolved = await resolveAssetMap(targets, { publicDir, collisions, mode });
+  reportCollisions(resolved.collisions, logger, { collisions, publicDir, timestamp });
+  reportViolations(await validateAssetMap(resolved.assetMap, themeRoot), logger, { publicDir, strict, timestamp });
+
+  return resolved.assetMap;
+};
+
+/**
+ * Returns all the files written by the plugin for the asset map: the copied assets and the generated files.
+ * Cleanup always keeps them, and they are listed in the managed blocks of the ignore files.
+ */
+export const getOutputFiles = async (
+  { targets, manifest }: ResolvedPluginShopifyAssetsOptions,
+  assetMap: AssetMap,
+): Promise<string[]> => [
+  ...flattenAssetMap(assetMap).map(([, asset]) => asset.dest),
+  ...(await getGeneratedOutputs(targets, manifest)),
+];
+
+/**
+ * Deletes the files matching `cleanMatch`, the stale fingerprinted copies of the current assets, and the files
+ * created by the plugin that no target produces anymore, keeping all the current outputs (to avoid having
+ * Shopify CLI deleting and reuploading them moments later).
+ * Only files written by the plugin can be deleted.
+ */
+export const cleanAssets = async (
+  options: ResolvedPluginShopifyAssetsOptions,
+  assetMap: AssetMap,
+  { logger, ledger, hooks, mode, timestamp }: SyncContext,
+): Promise<void> => {
+  const { publicDir, themeRoot, targets, dryRun } = options;
+  const filesToKeep = await getOutputFiles(options, assetMap);
+
+  const filesToDelete = new Map<string, ActionReason>();
+  for (const [src, asset] of flattenAssetMap(assetMap)) {
+    const variantsGlob = await getHashVariantsGlob({ ...asset, dest: dirname(asset.dest) }, src, { publicDir, mode });
+    if (!variantsGlob) continue;
+
+    (await fg(variantsGlob, { ignore: filesToKeep })).forEach((file) => filesToDelete.set(file, 'stale fingerprint'));
+  }
+
+  for (const target of targets) {
+    if (!target.cleanMatch) continue;
+
+    (await fg(target.cleanMatch, { ignore: filesToKeep }))
+      .filter((file) => !filesToDelete.has(file))
+      .forEach((file) => filesToDelete.set(file, 'matched cleanMatch'));
+  }
+
+  // Files created by the plugin that no target produces anymore, eg: after a `rename` change
+  // (the ones already deleted by other means are only forgotten).
+  const outputFiles = new Set(filesToKeep);
+  for (const file of ledger.files()) {
+    if (outputFiles.has(file) || filesToDelete.has(file)) continue;
+    if (existsSync(file)) filesToDelete.set(file, 'no longer produced');
+    else ledger.delete(file);
+  }
+
+  const ownedFilesToDelete = Array.from(filesToDelete.keys()).filter(ledger.canDelete);
+
+  if (dryRun) {
+    for (const file of ownedFilesToDelete) {
+      logDryRun('delete', file, filesToDelete.get(file) ?? 'matched cleanMatch', logger, timestamp);
+      ledger.delete(file);
+    }
+    return;
+  }
+
+  if (!ownedFilesToDelete.length) return;
+
+  for (const file of ownedFilesToDelete) {
+    const event: AssetEvent = { type: 'delete', dest: file, reason: filesToDelete.get(file) };
+
+    try {
+      if (existsSync(file)) await unlink(file);
+    } catch (error: unknown) {
+      logger.error(toError(error).message);
+      await hooks.onError?.(toError(error), event);
+      continue;
+    }
+
+    ledger.delete(file);
+    logEvent('delete', relative(themeRoot, file), logger, timestamp);
+    await hooks.onAssetDeleted?.(event);
+  }
+};
+
+/**
+ * Copies all the assets of the asset map, writes the generated files (sprites, locales, settings schema), the font faces snippets and the asset manifest.
+ */
+export const copyAssets = async (
+  { publicDir, targets, manifest: manifestOptions, dryRun, logLevel }: ResolvedPluginShopifyAssetsOptions,
+  assetMap: AssetMap,
+  { logger, ledger, manifest, cache, hooks, mode, timestamp }: SyncContext,
+): Promise<void> => {
+  await copyAllAssetMap(assetMap, logger, {
+    verbose: isLogLevelEnabled(logLevel, 'verbose'),
+    timestamp,
+    ledger,
+    cache,
+    hooks,
+    dryRun,
+  });
+
+  for (const target of targets) {
+    await writeGeneratedFiles(target, logger, { timestamp, ledger, cache, hooks, dryRun });
+    await writeFontFaces(target, assetMap, logger, { timestamp, ledger, hooks, dryRun });
+  }
+
+  manifest.clear();
+  for (const [src, asset] of flattenAssetMap(assetMap)) {
+    if (asset.hash)
+      manifest.set(asset.dest, { name: await getLogicalName(asset, src, { publicDir, mode }), dest: asset.dest });
+  }
+
+  if (manifestOptions) {
+    await writeManifest(manifest, manifestOptions, logger, { timestamp, ledger, hooks, dryRun });
+  }
+};
+
+/**
+ * Brings the theme in sync with the asset sources: resolves the asset map, cleans the stale files,
+ * copies all the assets, then updates the ignore files. Used on serve start, and by the programmatic API and CLI.
+ *
+ * @param {ResolvedPluginShopifyAssetsOptions} options - Resolved plugin options.
+ * @param {SyncContext} context - Logger, ownership ledger, asset manifest, content cache and lifecycle hooks.
+ * @returns The resolved asset map.
+ */
+export const syncAssets = async (
+  options: ResolvedPluginShopifyAssetsOptions,
+  context: SyncContext,
+): Promise<AssetMap> => {
+  await context.ledger.load();
+  await context.cache.load();
+
+  const assetMap = await resolveAssets(options, context);
+  await cleanAssets(options, assetMap, context);
+  await copyAssets(options, assetMap, context);
+
+  const outputFiles = await getOutputFiles(options, assetMap);
+  await reportShopifyIgnored(outputFiles, options.themeRoot, context.logger, { timestamp: context.timestamp });
+  await writeIgnoreFiles(outputFiles, options, context.logger, context.timestamp);
+
+  await context.ledger.save();
+  await context.cache.save();
+
+  return assetMap;
+};
@@ -1,15 +1,75 @@
 import { basename, dirname, isAbsolute, join, relative, resolve, sep, parse } from 'node:path';
 import { existsSync } from 'node:fs';
-import { cp, unlink, readdir } from 'node:fs/promises';
+import { createHash, randomUUID } from 'node:crypto';
+import { copyFile, cp, readFile, rename, writeFile, mkdir, rm, stat, utimes } from 'node:fs/promises';
 import pc from 'picocolors';
 import fg from 'fast-glob';
-import { normalizePath } from 'vite';
+import { loadConfigFromFile, normalizePath } from 'vite';
+
+import { TEMP_DIR } from './constants.js';
+import { svgToSnippet } from './svg.js';
+import { hasCssUrls, rewriteCssUrls } from './css.js';
+import { attachSectionSchema, findSectionSchema } from './section.js';
 
 import type { Logger } from 'vite';
 import type { OutputAsset, OutputChunk } from 'rollup';
-// import type { RenderedChunk } from 'rollup';
-import type { AssetMap } from './build.js';
-import type { ResolvedTarget, RenameFunc } from './options.js';
+import type { AssetMap } from './assets.js';
+import type { Ledger } from './ledger.js';
+import type { ContentCache } from './cache.js';
+import type {
+  AssetEvent,
+  AssetHooks,
+  LogLevel,
+  RenameContext,
+  RenameFunc,
+  RenameMode,
+  ResolvedTarget,
+} from './options.js';
+
+const LOG_LEVELS: Record<LogLevel, number> = { silent: 0, error: 1, warn: 2, info: 3, verbose: 4 };
+
+/**
+ * Whether messages of the given level are logged with the `logLevel` option.
+ */
+export const isLogLevelEnabled = (logLevel: LogLevel, level: LogLevel): boolean =>
+  LOG_LEVELS[logLevel] >= LOG_LEVELS[level];
+
+/**
+ * Wraps the Vite logger to only log the messages allowed by the `logLevel` option.
+ * Messages logged with `info` are only logged with the `info` and `verbose` levels.
+ *
+ * With several theme roots, messages are tagged with the name of their theme root: `[shopify-assets:eu]`.
+ *
+ * @param {Logger} logger - Vite logger.
+ * @param {LogLevel} logLevel - Resolved `logLevel` option.
+ * @param {string} [tag] - Name of the theme root.
+ * @returns The filtered logger.
+ */
+export const createLevelLogger = (logger: Logger, logLevel: LogLevel, tag?: string): Logger => {
+  const tagMessage = (message: string): string => {
+    if (!tag) return message;
+
+    return message.includes('[shopify-assets]')
+      ? message.replace('[shopify-assets]', `[shopify-assets:${tag}]`)
+      : `[shopify-assets:${tag}] ${message}`;
+  };
+
+  return {
+    ...logger,
+    info(message, options) {
+      if (isLogLevelEnabled(logLevel, 'info')) logger.info(tagMessage(message), options);
+    },
+    warn(message, options) {
+      if (isLogLevelEnabled(logLevel, 'warn')) logger.warn(tagMessage(message), options);
+    },
+    warnOnce(message, options) {
+      if (isLogLevelEnabled(logLevel, 'warn')) logger.warnOnce(tagMessage(message), options);
+    },
+    error(message, options) {
+      if (isLogLevelEnabled(logLevel, 'error')) logger.error(tagMessage(message), options);
+    },
+  };
+};
 
 const logMessage = (
   message: string,
@@ -28,7 +88,8 @@ const logMessage = (
             ? pc.cyan
             : pc.dim;
 
-  logger.info(pc.dim('[shopify-assets] ') + color(message), { timestamp });
+  const method = level === 'warn' ? 'warn' : level === 'error' ? 'error' : 'info';
+  logger[method](pc.dim('[shopify-assets] ') + color(message), { timestamp });
 };
 
 const logMessageConsole = (message: string, level: 'success' | 'warn' | 'error' | 'info' | undefined) => {
@@ -57,6 +118,41 @@ export const logInfo = (message: string, logger: Logger, timestamp: boolean = fa
 
 export const logWarnConsole = (message: string) => logMessageConsole(message, 'warn');
 
+/**
+ * Reason of a file action, logged in dry run mode.
+ */
+export type ActionReason =
+  | 'not in bundle'
+  | 'matched cleanMatch'
+  | 'source deleted'
+  | 'stale fingerprint'
+  | 'no longer produced'
+  | 'source created'
+  | 'source updated'
+  | 'matched target'
+  | 'generated file changed'
+  | 'destination changed'
+  | 'unchanged'
+  | 'skipped by transform';
+
+export const logDryRun = (
+  action: 'copy' | 'write' | 'delete',
+  path: string,
+  reason: ActionReason,
+  logger: Logger,
+  timestamp: boolean = false,
+  src?: string,
+) => {
+  const color = action === 'delete' ? pc.red : pc.green;
+
+  logger.info(
+    pc.dim(`[shopify-assets] dry run: would ${action} `) +
+      color(relative(process.cwd(), path)) +
+      pc.dim(` (${reason}${src ? `, from ${relative(process.cwd(), src)}` : ''})`),
+    { timestamp },
+  );
+};
+
 export const logCopySuccess = (dest: string, src: string, logger: Logger, timestamp = false) => {
   logger.info(
     pc.dim(`[shopify-assets] ${relative(process.cwd(), dirname(dest))}${sep}`) +
@@ -67,7 +163,7 @@ export const logCopySuccess = (dest: string, src: string, logger: Logger, timest
 };
 
 export const logCopyError = (dest: string, src: string, logger: Logger, timestamp = false) => {
-  logger.info(
+  logger.error(
     pc.dim(`[shopify-assets] could not copy ${relative(process.cwd(), dirname(dest))}${sep}`) +
       pc.red(basename(dest)) +
       pc.dim(` from ${relative(process.cwd(), dirname(src))}`),
@@ -75,6 +171,23 @@ export const logCopyError = (dest: string, src: string, logger: Logger, timestam
   );
 };
 
+export const logCopySkipped = (dest: string, src: string, logger: Logger, timestamp = false) => {
+  logger.info(
+    pc.dim(`[shopify-assets] ${relative(process.cwd(), dirname(dest))}${sep}`) +
+      pc.yellow(basename(dest)) +
+      pc.dim(` skipped by transform from ${relative(process.cwd(), dirname(src))}`),
+    { timestamp },
+  );
+};
+
+export const logCopyUnchanged = (dest: string, src: string, logger: Logger, timestamp = false) => {
+  logger.info(
+    pc.dim(`[shopify-assets] ${relative(process.cwd(), dirname(dest))}${sep}${basename(dest)}`) +
+      pc.dim(` unchanged from ${relative(process.cwd(), dirname(src))}`),
+    { timestamp },
+  );
+};
+
 export const logEvent = (
   type: 'create' | 'update' | 'delete',
   path: string,
@@ -84,7 +197,7 @@ export const logEvent = (
   const color = type === 'delete' ? pc.red : type === 'create' ? pc.green : type === 'update' ? pc.cyan : pc.dim;
 
   logger.info(
-    pc.dim(`[shopify-assets] ${dirname(path)}${path.includes(sep) ? sep : ''}`) +
+    pc.dim(`[shopify-assets] ${path.includes(sep) ? `${dirname(path)}${sep}` : ''}`) +
       color(basename(path)) +
       pc.dim(` ${type}d`),
     { timestamp },
@@ -98,201 +211,542 @@ export const logEventIgnored = (
   timestamp: boolean = false,
 ) => {
   logger.info(
-    pc.dim(`[shopify-assets] ${dirname(path)}${path.includes(sep) ? sep : ''}`) +
+    pc.dim(`[shopify-assets] ${path.includes(sep) ? `${dirname(path)}${sep}` : ''}`) +
       pc.yellow(basename(path)) +
       pc.dim(` ${type} ignored`),
     { timestamp },
   );
 };
 
+/**
+ * Returns a `Uint8Array` view of a Buffer, without copying it.
+ */
+export const toUint8Array = (buffer: Buffer): Uint8Array =>
+  new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
 export const isChildDir = (base: string, target: string) => {
   const relation = relative(base, target);
   return relation !== '' && !relation.startsWith('..') && !isAbsolute(relation);
 };
 
-export const renameFile = async (file: string, src: string, rename: string | RenameFunc): Promise<string> => {
+/**
+ * Options needed to resolve the file names of the source files: the resolved `publicDir`, and the mode.
+ */
+export type NamingOptions = {
+  publicDir: string;
+  mode: RenameMode;
+};
+
+const HASH_TOKEN_REGEX = /\[hash(?::\d+)?\]/;
+
+/**
+ * Stands for the content hash when resolving the glob pattern of all the copies of a file.
+ */
+const HASH_PLACEHOLDER = '\u0000';
+
+/**
+ * Returns the directory segments of a source file, relative to `publicDir` (without `..` segments).
+ * eg: `images/home/hero.png` -> `['images', 'home']`
+ */
+export const getDirSegments = (src: string, publicDir: string): string[] =>
+  normalizePath(relative(publicDir, dirname(src)))
+    .split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..');
+
+const getContentHash = async (src: string): Promise<string> =>
+  createHash('sha256')
+    .update(toUint8Array(await readFile(src)))
+    .digest('hex');
+
+/**
+ * Applies the tokens of a file name pattern: `[name]`, `[ext]`, `[dir]`, `[hash]` and `[hash:<length>]`
+ * (default length: 8). An empty `[dir]` (ie: files at the root of `publicDir`) also removes the separator after it.
+ */
+export const applyFileNamePattern = (
+  pattern: string,
+  tokens: { name: string; ext: string; dir: string; hash: string },
+): string =>
+  pattern
+    .replace(/\[dir\]([-_.]?)/g, (_, separator: string) => (tokens.dir ? `${tokens.dir}${separator}` : ''))
+    .replace(/\[name\]/g, tokens.name)
+    .replace(/\[ext\]/g, tokens.ext)
+    .replace(/\[hash(?::(\d+))?\]/g, (_, length?: string) => tokens.hash.slice(0, length ? Number(length) : 8));
+
+export const renameFile = async (
+  file: string,
+  src: string,
+  rename: string | RenameFunc,
+  context: RenameContext,
+): Promise<string> => {
+  const { name, ext } = parse(file);
+
   if (typeof rename === 'string') {
-    return rename;
+    return applyFileNamePattern(rename, {
+      name,
+      ext: ext.replace('.', ''),
+      dir: context.dirs.join('-'),
+      hash: context.hash,
+    });
   }
 
-  const { name, ext } = parse(file);
-  return rename(name, ext.replace('.', ''), src);
+  return rename(name, ext.replace('.', ''), src, context);
+};
+
+/**
+ * Applies a `target.hash` pattern to a file name, using the content hash of the source file.
+ *
+ * Supported tokens: `[name]`, `[ext]`, `[hash]` and `[hash:<length>]` (default length: 8).
+ *
+ * @param {string} fileName - File name, after `target.rename`.
+ * @param {string} src - Absolute path of the source file.
+ * @param {string} pattern - Hash pattern, eg: `[name]-[hash].[ext]`.
+ * @param {string} [hash] - Content hash, when already known.
+ * @returns The fingerprinted file name.
+ */
+export const hashFileName = async (fileName: string, src: string, pattern: string, hash?: string): Promise<string> => {
+  const { name, ext } = parse(fileName);
+
+  return applyFileNamePattern(pattern, {
+    name,
+    ext: ext.replace('.', ''),
+    dir: '',
+    hash: hash ?? (await getContentHash(src)),
+  });
 };
 
-export const copyAsset = async (
+/**
+ * Returns the logical (non-fingerprinted) file name of an asset, used as the key in the asset manifest.
+ *
+ * @param {ResolvedTarget} target - Resolved target.
+ * @param {string} src - Absolute path of the source file.
+ * @param {NamingOptions} naming - The resolved `publicDir`, and the mode.
+ * @param {string} [hash] - Content hash, when already known.
+ * @returns The file name, after `target.rename`.
+ */
+export const getLogicalName = async (
   target: ResolvedTarget,
-  fileChanged: string,
-  event: 'create' | 'update',
-  logger: Logger,
-  silent: boolean = true,
-): Promise<void> => {
-  const { base: file } = parse(fileChanged);
-  const destPath = target.rename
-    ? resolve(target.dest, await renameFile(file, file, target.rename))
-    : resolve(target.dest, file);
-
-  const relativePath = relative(process.cwd(), destPath);
-
-  cp(fileChanged, destPath, {
-    dereference: target.dereference,
-    errorOnExist: target.errorOnExist,
-    force: target.force,
-    mode: target.mode,
-    preserveTimestamps: target.preserveTimestamps,
-  })
-    .then(() => logEvent(event, relativePath, logger, true))
-    .catch((error: unknown) => {
-      logError(`could not create ${relativePath}`, logger, true);
-      if (!silent && error instanceof Error) logger.error(error.message);
-    });
+  src: string,
+  naming: NamingOptions,
+  hash?: string,
+): Promise<string> => {
+  // Outputs renamed by the collision strategy keep their new name.
+  if (target.logicalName) return target.logicalName;
+
+  const { base: file } = parse(src);
+  // Stylesheets with `cssUrls.liquid` are written as `.css.liquid` files.
+  const liquidSuffix = target.cssUrls?.liquid && hasCssUrls(src, target) ? '.liquid' : '';
+  if (!target.rename) return `${file}${liquidSuffix}`;
+
+  // The content hash is only computed when the rename can use it.
+  const usesHash = typeof target.rename !== 'string' || HASH_TOKEN_REGEX.test(target.rename);
+
+  const fileName = await renameFile(file, src, target.rename, {
+    src,
+    path: normalizePath(relative(naming.publicDir, src)),
+    dirs: getDirSegments(src, naming.publicDir),
+    target,
+    hash: hash ?? (usesHash ? await getContentHash(src) : ''),
+    mode: naming.mode,
+  });
+
+  return `${fileName}${liquidSuffix}`;
 };
 
-export const deleteAsset = async (
+/**
+ * Resolves the destination path of a source file, applying the target's `rename` and `hash` options.
+ *
+ * @param {ResolvedTarget} target - Resolved target.
+ * @param {string} src - Absolute path of the source file.
+ * @param {NamingOptions} naming - The resolved `publicDir`, and the mode.
+ * @param {string} [logicalName] - Logical file name, when already known.
+ * @returns The normalized absolute destination path.
+ */
+export const resolveAssetDest = async (
   target: ResolvedTarget,
-  fileChanged: string,
-  event: 'delete',
-  logger: Logger,
-  silent: boolean = true,
-): Promise<void> => {
-  const { base: file } = parse(fileChanged);
+  src: string,
+  naming: NamingOptions,
+  logicalName?: string,
+): Promise<string> => {
+  const fileName = logicalName ?? (await getLogicalName(target, src, naming));
 
-  const destPath = target.rename
-    ? resolve(target.dest, await renameFile(file, file, target.rename))
-    : resolve(target.dest, file);
+  return normalizePath(resolve(target.dest, target.hash ? await hashFileName(fileName, src, target.hash) : fileName));
+};
 
-  const relativePath = relative(process.cwd(), destPath);
+/**
+ * Returns a glob pattern matching all the copies of a source file whatever their content hash, ie: the
+ * fingerprinted copies of `target.hash`, or the renamed copies using the content hash (`[hash]` token or function).
+ *
+ * @param {ResolvedTarget} target - Resolved target.
+ * @param {string} src - Absolute path of the source file.
+ * @param {NamingOptions} naming - The resolved `publicDir`, and the mode.
+ * @returns The normalized absolute glob pattern, or `undefined` when the file name does not depend on its content.
+ */
+export const getHashVariantsGlob = async (
+  target: ResolvedTarget,
+  src: string,
+  naming: NamingOptions,
+): Promise<string | undefined> => {
+  const fileName = await getLogicalName(target, src, naming, HASH_PLACEHOLDER);
+  const hashedName = target.hash ? await hashFileName(fileName, src, target.hash, HASH_PLACEHOLDER) : fileName;
+  if (!hashedName.includes(HASH_PLACEHOLDER)) return undefined;
+
+  return normalizePath(join(fg.escapePath(target.dest), fg.escapePath(hashedName).split(HASH_PLACEHOLDER).join('*')));
+};
 
-  unlink(destPath)
-    .then(() => logEvent(event, relativePath, logger, true))
-    .catch((error: unknown) => {
-      logError(`Could not delete ${relativePath}`, logger, true);
-      if (!silent && error instanceof Error) logger.error(error.message);
+/**
+ * Writes a file through a temporary file, renamed over the destination once complete, so that watchers
+ * (eg: Shopify CLI) never read a half-written file. Temporary files are written in the cache folder,
+ * outside of the theme, so that they are never uploaded.
+ *
+ * @param {string} file - Absolute path of the destination file.
+ * @param {Function} write - Writes the content to the temporary file.
+ */
+const writeThroughTempFile = async (file: string, write: (tempFile: string) => Promise<void>): Promise<void> => {
+  const tempDir = resolve(TEMP_DIR);
+  const tempFile = join(tempDir, `${randomUUID()}-${basename(file)}`);
+  await Promise.all([mkdir(tempDir, { recursive: true }), mkdir(dirname(file), { recursive: true })]);
+
+  try {
+    await write(tempFile);
+    await rename(tempFile, file).catch(async (error: NodeJS.ErrnoException) => {
+      // The cache folder is on another file system (eg: a mounted theme), where renaming is not possible.
+      if (error.code !== 'EXDEV') throw error;
+      await copyFile(tempFile, file);
     });
+  } finally {
+    await rm(tempFile, { force: true });
+  }
 };
 
-export const copyAllAssets = async (
-  target: ResolvedTarget,
+/**
+ * Writes a generated file, unless its content is unchanged (to avoid needless uploads by Shopify CLI).
+ * The file is only recorded in the ledger once the plugin created it: an existing file is never claimed.
+ *
+ * Like copied files, generated files fire the `onAssetCopied` hook once written, or `onAssetSkipped` when unchanged.
+ */
+export const writeFileIfChanged = async (
+  file: string,
+  content: string,
   logger: Logger,
   options: {
-    silent?: boolean;
     timestamp?: boolean;
-  } = {
-    silent: true,
-    timestamp: false,
-  },
+    ledger?: Ledger;
+    target?: ResolvedTarget;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
+  } = {},
 ): Promise<void> => {
-  const assetFiles = await fg(normalizePath(target.src), { ignore: target.ignore });
-  if (!assetFiles.length) return;
-
-  const { silent, timestamp } = options;
-
-  for (const src of assetFiles) {
-    const { base: file } = parse(src);
-    const dest = target.rename
-      ? normalizePath(resolve(target.dest, await renameFile(file, src, target.rename)))
-      : normalizePath(resolve(target.dest, file));
-
-    const fileExists = existsSync(dest);
-
-    cp(src, dest, {
-      dereference: target.dereference,
-      errorOnExist: target.errorOnExist,
-      force: target.force,
-      mode: target.mode,
-      preserveTimestamps: target.preserveTimestamps,
-    })
-      .then(() => {
-        if (!fileExists) logCopySuccess(dest, src, logger, timestamp);
-      })
-      .catch((error: unknown) => {
-        logCopyError(dest, src, logger, timestamp);
-        if (!silent && error instanceof Error) logger.error(error.message);
-      });
+  const { timestamp, ledger, target, hooks, dryRun } = options;
+
+  const fileExists = existsSync(file);
+  const event: AssetEvent = { type: fileExists ? 'update' : 'create', dest: file, target };
+
+  if (fileExists && (await readFile(file, 'utf-8')) === content) {
+    if (!dryRun) await hooks?.onAssetSkipped?.({ ...event, reason: 'unchanged' });
+    return;
+  }
+
+  if (dryRun) {
+    logDryRun('write', file, 'generated file changed', logger, timestamp);
+    return;
+  }
+
+  const startTime = performance.now();
+  await writeThroughTempFile(file, (tempFile) => writeFile(tempFile, content));
+  event.duration = performance.now() - startTime;
+
+  if (!fileExists) ledger?.add(file);
+  logEvent(event.type, relative(process.cwd(), file), logger, timestamp);
+  await hooks?.onAssetCopied?.(event);
+};
+
+/**
+ * Loads a JSON file, or a module default-exporting a JSON value (`.ts`, `.mts`, `.js`, `.mjs`). Modules are
+ * bundled by Vite, like config files, so that TypeScript sources get type checking.
+ *
+ * @param {string} file - Absolute path of the file.
+ * @returns The JSON value.
+ */
+export const loadJsonModule = async (file: string): Promise<unknown> => {
+  if (parse(file).ext === '.json') return JSON.parse(await readFile(file, 'utf-8'));
+
+  // Vite only loads modules exporting objects, so the default export (eg: an array) is wrapped in one. The wrapper
+  // lives in the cache folder, where Vite also writes its bundle, to keep the source folders (and their watchers) clean.
+  const tempDir = resolve(TEMP_DIR);
+  const wrapper = join(tempDir, `${randomUUID()}-${basename(file)}.mjs`);
+  await mkdir(tempDir, { recursive: true });
+  await writeFile(wrapper, `import value from ${JSON.stringify(normalizePath(file))};\nexport default { value };\n`);
+
+  try {
+    const loaded = await loadConfigFromFile({ command: 'build', mode: 'production' }, wrapper, undefined, 'silent');
+    if (!loaded) throw new Error(`Could not load ${file}`);
+
+    return (loaded.config as { value: unknown }).value;
+  } finally {
+    await rm(wrapper, { force: true });
+  }
+};
+
+/**
+ * What the `url()` and `@import` references of stylesheets are resolved against (`cssUrls` targets),
+ * and where the unresolved ones are logged.
+ */
+export type CssUrlsContext = {
+  /**
+   * The whole asset map, with all the copied files.
+   */
+  assetMap: AssetMap;
+  logger: Logger;
+  timestamp?: boolean;
+};
+
+/**
+ * Reads a source file and applies the target's built-in conversions and `transform` function.
+ *
+ * @returns The content to write, or `null` when the file should be skipped.
+ */
+const transformAssetContent = async (
+  src: string,
+  dest: string,
+  target: ResolvedTarget,
+  cssUrls?: CssUrlsContext,
+): Promise<string | Buffer | null> => {
+  let content: string | Buffer = await readFile(src);
+
+  if (target.svgSnippet) {
+    content = svgToSnippet(content.toString(), parse(dest).name, target.svgSnippet);
+  }
+
+  if (target.sectionSchema && parse(src).ext === '.liquid') {
+    const schemaFile = findSectionSchema(src);
+    if (schemaFile) content = attachSectionSchema(content.toString(), await loadJsonModule(schemaFile));
+  }
+
+  if (target.cssUrls && cssUrls && hasCssUrls(src, target)) {
+    const rewritten = rewriteCssUrls(content.toString(), src, dest, cssUrls.assetMap, target.cssUrls.liquid);
+    content = rewritten.content;
+
+    for (const url of rewritten.unresolved) {
+      logWarn(
+        `${relative(process.cwd(), src)} references ${url}, which is not copied by any target`,
+        cssUrls.logger,
+        cssUrls.timestamp,
+      );
+    }
+  }
+
+  if (!target.transform) {
+    return content;
   }
+
+  return target.transform(typeof content === 'string' ? Buffer.from(content) : content, { src, dest });
+};
+
+/**
+ * Result of copying an asset file: `copied`, `unchanged` when the destination was already identical
+ * (not rewritten), or `skipped` by `target.transform`.
+ */
+export type CopyResult = 'copied' | 'unchanged' | 'skipped';
+
+/**
+ * Returns a signature of the target options changing the content of the destination files,
+ * so that cached files are written again when those options change.
+ */
+export const getTargetSignature = (target: ResolvedTarget): string =>
+  createHash('sha256')
+    .update(
+      JSON.stringify({
+        svgSnippet: target.svgSnippet,
+        sectionSchema: target.sectionSchema,
+        cssUrls: target.cssUrls,
+        transform: target.transform?.toString(),
+      }),
+    )
+    .digest('hex')
+    .slice(0, 16);
+
+/**
+ * Whether two files have the same content. Sizes are compared first, to avoid reading files that differ.
+ */
+const isSameFileContent = async (src: string, dest: string): Promise<boolean> => {
+  if (!existsSync(dest)) return false;
+
+  const [srcStats, destStats] = await Promise.all([stat(src), stat(dest)]);
+  if (srcStats.size !== destStats.size) return false;
+
+  const [srcContent, destContent] = await Promise.all([readFile(src), readFile(dest)]);
+  return srcContent.equals(toUint8Array(destContent));
+};
+
+/**
+ * Copies a single source file to its destination, applying the target's `transform` when set,
+ * attaching the section schemas of `sectionSchema` targets and rewriting the stylesheet references of `cssUrls` targets.
+ *
+ * The destination is not rewritten when it is identical: either according to the content cache
+ * (same source stats and target options as on the last write), or by comparing contents (always for
+ * targets with a `transform`, which is run on every copy).
+ * Otherwise, it is written through a temporary file, so that it is never half-written.
+ *
+ * @returns The copy result.
+ */
+export const copyAssetFile = async (
+  src: string,
+  dest: string,
+  target: ResolvedTarget,
+  cache?: ContentCache,
+  cssUrls?: CssUrlsContext,
+): Promise<CopyResult> => {
+  // Rewritten stylesheets and composed sections also depend on other files (the referenced files,
+  // the section schema), and a `transform` can read any outside state (eg: an environment variable),
+  // so their output is always compared with the destination.
+  const dependsOnOtherFiles = hasCssUrls(src, target) || target.sectionSchema;
+  const signature = getTargetSignature(target);
+  const useCache = !dependsOnOtherFiles && !target.transform;
+  if (cache && useCache && (await cache.isFresh(src, dest, signature))) return 'unchanged';
+
+  if (!target.transform && !target.svgSnippet && !dependsOnOtherFiles) {
+    if (await isSameFileContent(src, dest)) {
+      await cache?.set(src, dest, signature);
+      return 'unchanged';
+    }
+
+    // The existing destination is checked here, the temporary file never exists.
+    if (target.errorOnExist && existsSync(dest)) {
+      throw new Error(`${dest} already exists`);
+    }
+
+    await writeThroughTempFile(dest, (tempFile) =>
+      cp(src, tempFile, {
+        dereference: target.dereference,
+        mode: target.mode,
+        preserveTimestamps: target.preserveTimestamps,
+      }),
+    );
+    await cache?.set(src, dest, signature);
+    return 'copied';
+  }
+
+  const content = await transformAssetContent(src, dest, target, cssUrls);
+  if (content === null) return 'skipped';
+
+  const buffer = typeof content === 'string' ? Buffer.from(content) : content;
+  if (existsSync(dest) && buffer.equals(toUint8Array(await readFile(dest)))) {
+    await cache?.set(src, dest, signature);
+    return 'unchanged';
+  }
+
+  if (target.errorOnExist && existsSync(dest)) {
+    throw new Error(`${dest} already exists`);
+  }
+
+  await writeThroughTempFile(dest, async (tempFile) => {
+    await writeFile(tempFile, toUint8Array(buffer));
+
+    if (target.preserveTimestamps) {
+      const { atime, mtime } = await stat(src);
+      await utimes(tempFile, atime, mtime);
+    }
+  });
+
+  await cache?.set(src, dest, signature);
+  return 'copied';
+};
+
+/**
+ * Returns the error thrown by a file action as an `Error`, for the `onError` hook.
+ */
+export const toError = (error: unknown): Error => (error instanceof Error ? error : new Error(String(error)));
+
+/**
+ * Combines several sets of lifecycle hooks: each hook calls the matching hook of every set, in order.
+ */
+export const mergeHooks = (...hooksList: Array<AssetHooks | undefined>): AssetHooks => ({
+  onAssetCopied: async (event) => {
+    for (const hooks of hooksList) await hooks?.onAssetCopied?.(event);
+  },
+  onAssetDeleted: async (event) => {
+    for (const hooks of hooksList) await hooks?.onAssetDeleted?.(event);
+  },
+  onAssetSkipped: async (event) => {
+    for (const hooks of hooksList) await hooks?.onAssetSkipped?.(event);
+  },
+  onError: async (error, event) => {
+    for (const hooks of hooksList) await hooks?.onError?.(error, event);
+  },
+});
+
+/**
+ * Calls the `onAssetCopied` or `onAssetSkipped` hook matching the result of a copy.
+ */
+export const runCopyHooks = async (result: CopyResult, event: AssetEvent, hooks: AssetHooks = {}): Promise<void> => {
+  if (result === 'copied') return hooks.onAssetCopied?.(event);
+
+  return hooks.onAssetSkipped?.({ ...event, reason: result === 'unchanged' ? 'unchanged' : 'skipped by transform' });
 };
 
+/**
+ * Copies all the outputs of an asset map, skipping the unchanged ones, and logs a summary of the results.
+ * The unchanged files are only logged when `verbose`.
+ */
 export const copyAllAssetMap = async (
   assetMap: AssetMap,
   logger: Logger,
   options: {
-    silent?: boolean;
+    verbose?: boolean;
     timestamp?: boolean;
+    ledger?: Ledger;
+    cache?: ContentCache;
+    hooks?: AssetHooks;
+    dryRun?: boolean;
   } = {
-    silent: true,
     timestamp: false,
   },
 ): Promise<void> => {
   if (!assetMap?.size) return;
 
-  const { silent, timestamp } = options;
-
-  for (const [src, target] of assetMap.entries()) {
-    const fileExists = existsSync(target.dest);
-
-    await cp(src, target.dest, {
-      dereference: target.dereference,
-      errorOnExist: target.errorOnExist,
-      force: target.force,
-      mode: target.mode,
-      preserveTimestamps: target.preserveTimestamps,
-    })
-      .then(() => {
-        if (!fileExists) logCopySuccess(target.dest, src, logger, timestamp);
-      })
-      .catch((error: unknown) => {
-        logCopyError(target.dest, src, logger, timestamp);
-        if (!silent && error instanceof Error) logger.error(error.message);
-      });
-  }
-};
-
-export const getFilesToDeleteInThemeAssets = async (
-  themeAssetsDir: string,
-  bundle: { [fileName: string]: OutputAsset | OutputChunk },
-  assetDestSet: Set<string>,
-): Promise<string[]> => {
-  if (!bundle || !Object.keys(bundle).length) {
-    return [];
-  }
-
-  const filesInAssetsDir = await readdir(themeAssetsDir);
+  const { verbose, timestamp, ledger, cache, hooks, dryRun } = options;
+  const results: Record<CopyResult | 'failed', number> = { unchanged: 0, copied: 0, skipped: 0, failed: 0 };
 
-  const filesInBundle = Object.entries(bundle).reduce((acc, [fileName, chunk]) => {
-    if (fileName.startsWith('.vite/')) {
-      return [...acc, '.vite'];
-    }
+  for (const [src, outputs] of assetMap.entries()) {
+    for (const target of outputs) {
+      if (dryRun) {
+        logDryRun('copy', target.dest, 'matched target', logger, timestamp, src);
+        continue;
+      }
 
-    if (chunk.type === 'asset') {
-      console.log('asset', fileName);
-      return [...acc, fileName];
-    }
+      const event: AssetEvent = { type: existsSync(target.dest) ? 'update' : 'create', src, dest: target.dest, target };
+      const startTime = performance.now();
+      let result: CopyResult;
 
-    if (chunk.type === 'chunk') {
-      const importedFiles = [] as string[];
-      if (chunk.viteMetadata?.importedCss?.size) {
-        chunk.viteMetadata.importedCss.forEach((cssFile) => {
-          importedFiles.push(cssFile);
-        });
+      try {
+        result = await copyAssetFile(src, target.dest, target, cache, { assetMap, logger, timestamp });
+        event.duration = performance.now() - startTime;
+      } catch (error: unknown) {
+        results.failed++;
+        logCopyError(target.dest, src, logger, timestamp);
+        logger.error(toError(error).message);
+        await hooks?.onError?.(toError(error), event);
+        continue;
       }
 
-      if (chunk.viteMetadata?.importedAssets?.size) {
-        chunk.viteMetadata.importedAssets.forEach((assetFile) => {
-          importedFiles.push(assetFile);
-        });
-      }
+      // Only the files created by the plugin are recorded in the ledger, never the ones found on the disk.
+      if (result === 'copied' && event.type === 'create') ledger?.add(target.dest);
 
-      return [...acc, fileName, ...importedFiles];
+      results[result]++;
+      if (result === 'skipped') logCopySkipped(target.dest, src, logger, timestamp);
+      else if (result === 'copied') logCopySuccess(target.dest, src, logger, timestamp);
+      else if (verbose) logCopyUnchanged(target.dest, src, logger, timestamp);
+      await runCopyHooks(result, event, hooks);
     }
+  }
 
-    return acc;
-  }, [] as string[]);
-
-  const filesToDelete = filesInAssetsDir
-    .filter((file) => !filesInBundle.includes(file))
-    .map((file) => normalizePath(join(themeAssetsDir, file)))
-    .filter((file) => !assetDestSet.has(file));
+  if (dryRun) return;
 
-  return filesToDelete;
+  const summary = Object.entries(results)
+    .filter(([result, count]) => count > 0 || result === 'unchanged' || result === 'copied')
+    .map(([result, count]) => `${count} ${result}`)
+    .join(', ');
+  logInfo(summary, logger, timestamp);
 };
 
 export const getBundleFiles = (bundle: { [fileName: string]: OutputAsset | OutputChunk }): string[] => {
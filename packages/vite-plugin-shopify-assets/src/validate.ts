@@ -0,0 +1,142 @@
+import { basename, dirname, extname, relative } from 'node:path';
+import { stat } from 'node:fs/promises';
+
+import { normalizePath } from 'vite';
+
+import { logWarn } from './utils.js';
+import {
+  THEME_ASSETS_DIRNAME,
+  THEME_ASSET_EXTENSIONS,
+  THEME_FILE_NAME_REGEX,
+  THEME_FOLDER_EXTENSIONS,
+  THEME_MAX_ASSET_SIZE,
+  THEME_MAX_LIQUID_SIZE,
+} from './constants.js';
+
+import type { Logger } from 'vite';
+import type { AssetMap } from './assets.js';
+
+export type AssetViolationRule = 'file-name' | 'file-size' | 'asset-extension' | 'folder-extension' | 'theme-folder';
+
+export type AssetViolation = {
+  /**
+   * Absolute path of the source file.
+   */
+  src: string;
+  /**
+   * Absolute path of the resolved destination file.
+   */
+  dest: string;
+  /**
+   * The Shopify theme constraint the destination file breaks.
+   */
+  rule: AssetViolationRule;
+  /**
+   * Human readable description of the violation.
+   */
+  message: string;
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+/**
+ * Validates a single resolved asset against the Shopify theme constraints.
+ *
+ * Note: the size is checked on the source file, as the output of `transform` is only known when copying.
+ *
+ * @param {string} src - Absolute path of the source file.
+ * @param {string} dest - Absolute path of the resolved destination file.
+ * @param {string} themeRoot - Resolved theme root directory.
+ * @returns All the violations found, if any.
+ */
+export const validateAsset = async (src: string, dest: string, themeRoot: string): Promise<AssetViolation[]> => {
+  const violations: AssetViolation[] = [];
+  const fileName = basename(dest);
+  const folder = normalizePath(relative(themeRoot, dirname(dest)));
+  const ext = extname(fileName).slice(1).toLowerCase();
+
+  if (!THEME_FILE_NAME_REGEX.test(fileName)) {
+    violations.push({
+      src,
+      dest,
+      rule: 'file-name',
+      message: `"${fileName}" can only contain letters, numbers, dashes, underscores and dots`,
+    });
+  }
+
+  const allowedExtensions = THEME_FOLDER_EXTENSIONS[folder];
+  if (!allowedExtensions) {
+    violations.push({ src, dest, rule: 'theme-folder', message: `"${folder}" is not a Shopify theme folder` });
+  } else if (folder === THEME_ASSETS_DIRNAME && !THEME_ASSET_EXTENSIONS.includes(ext)) {
+    violations.push({ src, dest, rule: 'asset-extension', message: `".${ext}" files are not allowed in assets/` });
+  } else if (!allowedExtensions.includes(ext)) {
+    violations.push({
+      src,
+      dest,
+      rule: 'folder-extension',
+      message: `${folder}/ only accepts ${allowedExtensions.map((allowed) => `.${allowed}`).join(', ')} files`,
+    });
+  }
+
+  const maxSize = ext === 'liquid' ? THEME_MAX_LIQUID_SIZE : THEME_MAX_ASSET_SIZE;
+  const { size } = await stat(src);
+  if (size > maxSize) {
+    violations.push({
+      src,
+      dest,
+      rule: 'file-size',
+      message: `${formatSize(size)} exceeds the ${formatSize(maxSize)} limit of ${ext === 'liquid' ? 'Liquid' : 'asset'} files`,
+    });
+  }
+
+  return violations;
+};
+
+/**
+ * Validates all the resolved assets against the Shopify theme constraints, before they are copied.
+ *
+ * @param {AssetMap} assetMap - Resolved asset map.
+ * @param {string} themeRoot - Resolved theme root directory.
+ * @returns All the violations found, in asset map order.
+ */
+export const validateAssetMap = async (assetMap: AssetMap, themeRoot: string): Promise<AssetViolation[]> => {
+  const violations: AssetViolation[] = [];
+
+  for (const [src, outputs] of assetMap) {
+    for (const output of outputs) {
+      violations.push(...(await validateAsset(src, output.dest, themeRoot)));
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * Logs the violations found while validating the asset map, as warnings (logged unless `logLevel` is
+ * `'error'` or `'silent'`), as `shopify theme push` would reject those files anyway.
+ *
+ * @throws {Error} With the list of all violations, when `strict` is enabled.
+ */
+export const reportViolations = (
+  violations: AssetViolation[],
+  logger: Logger,
+  options: {
+    publicDir: string;
+    strict?: boolean;
+    timestamp?: boolean;
+  },
+): void => {
+  if (!violations.length) return;
+
+  const { publicDir, strict, timestamp } = options;
+  const lines = violations.map(
+    ({ src, rule, message }) => `${normalizePath(relative(publicDir, src))}: ${message} (${rule})`,
+  );
+
+  if (strict) {
+    throw new Error(`[shopify-assets] Invalid Shopify theme files:\n${lines.map((line) => `  - ${line}`).join('\n')}`);
+  }
+
+  lines.forEach((line) => logWarn(`Invalid Shopify theme file. ${line}`, logger, timestamp));
+};
@@ -0,0 +1,65 @@
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { clean, list, sync } from '../src/api.js';
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { PluginShopifyAssetsOptions } from '../src/options.js';
+import type { Fixture } from './fixture.js';
+
+describe('api', () => {
+  let fixture: Fixture;
+  let options: PluginShopifyAssetsOptions;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/fonts/font.woff2': 'font',
+      'public/icons/icon-cart.svg': '<svg />',
+      'public/icons/icon-menu.svg': '<svg />',
+      'theme/snippets/icon-merchant.liquid': 'merchant',
+    });
+    options = {
+      themeRoot: fixture.themeRoot,
+      publicDir: fixture.publicDir,
+      targets: [
+        'fonts/*',
+        { src: 'icons/icon-*.svg', dest: 'snippets', rename: (file) => `${file}.liquid`, cleanMatch: 'icon-*.liquid' },
+      ],
+    };
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('list returns every output, without touching the disk', async () => {
+    expect(await list(options, createMemoryLogger())).toEqual([
+      { src: fixture.path('public/fonts/font.woff2'), dest: fixture.path('theme/assets/font.woff2') },
+      { src: fixture.path('public/icons/icon-cart.svg'), dest: fixture.path('theme/snippets/icon-cart.liquid') },
+      { src: fixture.path('public/icons/icon-menu.svg'), dest: fixture.path('theme/snippets/icon-menu.liquid') },
+    ]);
+    expect(fixture.exists('theme/assets/font.woff2')).toBe(false);
+  });
+
+  it('sync copies all assets', async () => {
+    const assetMap = await sync(options, createMemoryLogger());
+
+    expect(assetMap.size).toBe(3);
+    expect(await fixture.read('theme/assets/font.woff2')).toBe('font');
+    expect(await fixture.read('theme/snippets/icon-cart.liquid')).toBe('<svg />');
+    expect(fixture.exists('theme/.shopify-assets.json')).toBe(true);
+  });
+
+  it('clean only deletes stale files written by the plugin', async () => {
+    await sync(options, createMemoryLogger());
+    await rm(fixture.path('public/icons/icon-menu.svg'));
+
+    const logger = createMemoryLogger();
+    await clean(options, logger);
+
+    expect(fixture.exists('theme/snippets/icon-menu.liquid')).toBe(false);
+    expect(fixture.exists('theme/snippets/icon-cart.liquid')).toBe(true);
+    expect(fixture.exists('theme/snippets/icon-merchant.liquid')).toBe(true);
+    expect(fixture.exists('theme/assets/font.woff2')).toBe(true);
+    expect(logger.messages).toEqual(['[shopify-assets] snippets/icon-menu.liquid deleted']);
+  });
+});
@@ -0,0 +1,73 @@
+import { readdir } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { matchTargets } from '../src/assets.js';
+import { resolveOptions } from '../src/options.js';
+import { createFixture } from './fixture.js';
+
+import type { Fixture, FixtureOptions } from './fixture.js';
+
+describe('matchTargets', () => {
+  it('returns the targets matching a file, unless they ignore it', () => {
+    const [{ targets } = { targets: [] }] = resolveOptions({
+      publicDir: '/project/public',
+      themeRoot: '/project/theme',
+      targets: ['images/*.png', { src: 'images/*', ignore: 'images/*.png' }],
+    });
+
+    expect(matchTargets(targets, '/project/public/images/a.png')).toEqual({ matched: [targets[0]], ignored: false });
+    expect(matchTargets(targets, '/project/public/images/a.jpg')).toEqual({ matched: [targets[1]], ignored: false });
+    expect(matchTargets(targets, '/project/public/fonts/a.woff2')).toEqual({ matched: [], ignored: false });
+    expect(matchTargets(targets.slice(1), '/project/public/images/a.png')).toEqual({ matched: [], ignored: true });
+  });
+});
+
+describe('serve and build', () => {
+  const files = {
+    'public/images/a/logo.png': 'a',
+    'public/images/b/logo.png': 'b',
+    'public/fonts/font.woff2': 'font',
+    'public/brand/mark.svg': '<svg />',
+  };
+  const options: FixtureOptions = {
+    collisions: 'prefix-path',
+    targets: [
+      'images/**/*.png',
+      { src: 'fonts/*', rename: (name, ext) => `theme-${name}.${ext}` },
+      { src: 'brand/*', hash: true },
+    ],
+  };
+  const fixtures: Fixture[] = [];
+
+  const listTheme = async (fixture: Fixture) =>
+    (await readdir(fixture.path('theme/assets'), { withFileTypes: true }))
+      .filter((entry) => entry.isFile())
+      .map((entry) => entry.name)
+      .sort();
+
+  beforeEach(async () => {
+    fixtures.push(await createFixture(files), await createFixture(files));
+  });
+
+  afterEach(async () => {
+    await Promise.all(fixtures.map((fixture) => fixture.remove()));
+    fixtures.length = 0;
+  });
+
+  it('write the same files, with the same names', async () => {
+    const [served, built] = fixtures as [Fixture, Fixture];
+    await (await served.serve(options)).close();
+    await built.build(options);
+
+    const files = await listTheme(built);
+    expect(files).toEqual([
+      'images-a-logo.png',
+      'images-b-logo.png',
+      expect.stringMatching(/^mark-[\da-f]{8}\.svg$/),
+      'shopify-assets-manifest.json',
+      'theme-font.woff2',
+    ]);
+    expect(await listTheme(served)).toEqual(files);
+  });
+});
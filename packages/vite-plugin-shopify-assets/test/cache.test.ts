@@ -0,0 +1,122 @@
+import { rm, utimes } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createContentCache } from '../src/cache.js';
+import { copyAssetFile } from '../src/utils.js';
+import { createFixture } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+import type { Target } from '../src/options.js';
+
+describe('createContentCache', () => {
+  let fixture: Fixture;
+  let src: string;
+  let dest: string;
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/a.css': 'a {}', 'theme/assets/a.css': 'a {}' });
+    src = fixture.path('public/a.css');
+    dest = fixture.path('theme/assets/a.css');
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('is fresh once recorded, with the same target signature', async () => {
+    const cache = createContentCache(undefined);
+    expect(await cache.isFresh(src, dest, 'signature')).toBe(false);
+
+    await cache.set(src, dest, 'signature');
+    expect(await cache.isFresh(src, dest, 'signature')).toBe(true);
+    expect(await cache.isFresh(src, dest, 'other')).toBe(false);
+  });
+
+  it('is stale once the source or the destination changed', async () => {
+    const cache = createContentCache(undefined);
+    await cache.set(src, dest, 'signature');
+    await fixture.write('public/a.css', 'a { color: red }');
+    expect(await cache.isFresh(src, dest, 'signature')).toBe(false);
+
+    await cache.set(src, dest, 'signature');
+    await utimes(dest, new Date(), new Date(Date.now() + 60_000));
+    expect(await cache.isFresh(src, dest, 'signature')).toBe(false);
+  });
+
+  it('keeps the entries of existing destinations between runs', async () => {
+    const cacheFile = fixture.path('cache/content.json');
+    const deletedDest = await fixture.write('theme/assets/b.css', 'a {}');
+    const cache = createContentCache(cacheFile);
+    await cache.set(src, dest, 'signature');
+    await cache.set(src, deletedDest, 'signature');
+    await rm(deletedDest);
+    await cache.save();
+
+    const { entries } = JSON.parse(await fixture.read('cache/content.json')) as { entries: object };
+    expect(Object.keys(entries)).toHaveLength(1);
+
+    const nextCache = createContentCache(cacheFile);
+    await nextCache.load();
+    expect(await nextCache.isFresh(src, dest, 'signature')).toBe(true);
+  });
+});
+
+describe('copyAssetFile', () => {
+  let fixture: Fixture;
+  let src: string;
+  let dest: string;
+
+  const resolveTarget = (target: Omit<Target, 'src'> = {}) => {
+    const [resolved] = fixture.options({ targets: [{ src: '*.css', ...target }] }).targets;
+    if (!resolved) throw new Error('No target');
+    return resolved;
+  };
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/a.css': 'a {}' });
+    src = fixture.path('public/a.css');
+    dest = fixture.path('theme/assets/a.css');
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('skips the destinations which are unchanged since the last copy', async () => {
+    const cache = createContentCache(undefined);
+    const target = resolveTarget();
+
+    expect(await copyAssetFile(src, dest, target, cache)).toBe('copied');
+    expect(await copyAssetFile(src, dest, target, cache)).toBe('unchanged');
+
+    await fixture.write('public/a.css', 'a { color: red }');
+    expect(await copyAssetFile(src, dest, target, cache)).toBe('copied');
+    expect(await fixture.read('theme/assets/a.css')).toBe('a { color: red }');
+  });
+
+  it('rewrites a destination modified outside of the plugin', async () => {
+    const cache = createContentCache(undefined);
+    const target = resolveTarget();
+
+    await copyAssetFile(src, dest, target, cache);
+    await fixture.write('theme/assets/a.css', 'edited');
+    expect(await copyAssetFile(src, dest, target, cache)).toBe('copied');
+    expect(await fixture.read('theme/assets/a.css')).toBe('a {}');
+  });
+
+  it('runs the transform on every copy, as it can read outside state', async () => {
+    const cache = createContentCache(undefined);
+    let version = 1;
+    const target = resolveTarget({ transform: (content) => `/* v${version} */\n${content.toString()}` });
+
+    expect(await copyAssetFile(src, dest, target, cache)).toBe('copied');
+    expect(await copyAssetFile(src, dest, target, cache)).toBe('unchanged');
+
+    version = 2;
+    expect(await copyAssetFile(src, dest, target, cache)).toBe('copied');
+    expect(await fixture.read('theme/assets/a.css')).toBe('/* v2 */\na {}');
+  });
+
+  it('skips the files for which the transform returns null', async () => {
+    const target = resolveTarget({ transform: () => null });
+
+    expect(await copyAssetFile(src, dest, target)).toBe('skipped');
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createFixture } from './fixture.js';
+
+import type { MockInstance } from 'vitest';
+import type { Fixture } from './fixture.js';
+
+/**
+ * Runs the CLI with the given arguments. The CLI runs on import without being awaited: use `vi.waitFor` for its output.
+ */
+const runCli = async (...args: string[]) => {
+  process.argv = ['node', 'shopify-assets', ...args];
+  vi.resetModules();
+  await import('../src/cli.js');
+};
+
+describe('cli', () => {
+  const { argv } = process;
+  let fixture: Fixture;
+  let stdout: MockInstance;
+  let stderr: MockInstance;
+  let log: MockInstance;
+
+  const output = (stream: MockInstance) => stream.mock.calls.map(([chunk]) => String(chunk)).join('');
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/fonts/font.woff2': 'font' });
+    await fixture.write(
+      'shopify-assets.config.mjs',
+      `export default ${JSON.stringify({ themeRoot: fixture.themeRoot, publicDir: fixture.publicDir, targets: ['fonts/*'] })};\n`,
+    );
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    // The Vite logger writes through the console.
+    log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    process.argv = argv;
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+    await fixture.remove();
+  });
+
+  it('prints the help without a command', async () => {
+    await runCli();
+
+    await vi.waitFor(() => expect(output(stdout)).toContain('Usage: shopify-assets <command> [options]'));
+  });
+
+  it('lists the outputs as JSON', async () => {
+    await runCli('list', '--json', '--config', fixture.path('shopify-assets.config.mjs'));
+
+    await vi.waitFor(() => expect(stdout).toHaveBeenCalled());
+    expect(JSON.parse(output(stdout))).toEqual([
+      { src: fixture.path('public/fonts/font.woff2'), dest: fixture.path('theme/assets/font.woff2') },
+    ]);
+    expect(fixture.exists('theme/assets/font.woff2')).toBe(false);
+  });
+
+  it('syncs the assets in dry run mode', async () => {
+    await runCli('sync', '--dry-run', '--config', fixture.path('shopify-assets.config.mjs'));
+
+    await vi.waitFor(() => expect(output(log)).toMatch(/would copy .*theme\/assets\/font.woff2 \(matched target/));
+    expect(fixture.exists('theme/assets/font.woff2')).toBe(false);
+  });
+
+  it('fails on an unknown command', async () => {
+    await runCli('deploy');
+
+    await vi.waitFor(() => expect(process.exitCode).toBe(1));
+    expect(output(stderr)).toContain('[shopify-assets] Unknown command "deploy"');
+  });
+});
@@ -0,0 +1,101 @@
+import { basename } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { flattenAssetMap, reportCollisions, resolveAssetMap } from '../src/assets.js';
+import { getLogicalName } from '../src/utils.js';
+import { createFixture, logger } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+import type { CollisionStrategy, Target } from '../src/options.js';
+
+describe('resolveAssetMap collisions', () => {
+  let fixture: Fixture;
+
+  const resolve = async (collisions: CollisionStrategy, targets: Array<string | Target>) => {
+    const { publicDir, targets: resolvedTargets } = fixture.options({ targets, collisions });
+    const resolved = await resolveAssetMap(resolvedTargets, { publicDir, collisions, mode: 'build' });
+    const dests = flattenAssetMap(resolved.assetMap).map(([, output]) => basename(output.dest));
+
+    return { ...resolved, publicDir, dests };
+  };
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/images/a/logo.png': 'a',
+      'public/images/b/logo.png': 'b',
+      'public/images/c/hero.png': 'c',
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('keeps the first source with warn-first-wins', async () => {
+    const { collisions, dests } = await resolve('warn-first-wins', ['images/**/*.png']);
+
+    expect(collisions).toEqual([
+      {
+        dest: fixture.path('theme/assets/logo.png'),
+        sources: [fixture.path('public/images/a/logo.png'), fixture.path('public/images/b/logo.png')],
+        dests: [fixture.path('theme/assets/logo.png'), undefined],
+      },
+    ]);
+    expect(dests.sort()).toEqual(['hero.png', 'logo.png']);
+  });
+
+  it('fails with the list of conflicting sources with error', async () => {
+    const { collisions, publicDir } = await resolve('error', ['images/**/*.png']);
+
+    expect(() => reportCollisions(collisions, logger, { collisions: 'error', publicDir })).toThrow(
+      /images\/a\/logo\.png, images\/b\/logo\.png/,
+    );
+  });
+
+  it('renames every conflicting source with prefix-path and hash-suffix', async () => {
+    expect((await resolve('prefix-path', ['images/**/*.png'])).dests.sort()).toEqual([
+      'hero.png',
+      'images-a-logo.png',
+      'images-b-logo.png',
+    ]);
+
+    const { dests } = await resolve('hash-suffix', ['images/**/*.png']);
+    expect(dests).toHaveLength(3);
+    expect(dests.filter((dest) => /^logo-[\da-f]{8}\.png$/.test(dest))).toHaveLength(2);
+  });
+
+  it('finds the collisions of fingerprinted files on their name before hash', async () => {
+    const { collisions, dests } = await resolve('warn-first-wins', [{ src: 'images/**/*.png', hash: true }]);
+
+    expect(collisions).toHaveLength(1);
+    expect(collisions[0]?.dest).toBe(fixture.path('theme/assets/logo.png'));
+    expect(dests.filter((dest) => dest.startsWith('logo-'))).toHaveLength(1);
+
+    await expect(
+      resolve('error', [{ src: 'images/**/*.png', hash: true }]).then(({ collisions, publicDir }) =>
+        reportCollisions(collisions, logger, { collisions: 'error', publicDir }),
+      ),
+    ).rejects.toThrow(/Asset collisions found/);
+  });
+
+  it('fingerprints the renamed fingerprinted files, with their own logical name', async () => {
+    const { assetMap, publicDir } = await resolve('prefix-path', [{ src: 'images/**/*.png', hash: true }]);
+    const names = await Promise.all(
+      flattenAssetMap(assetMap).map(async ([src, output]) => [
+        await getLogicalName(output, src, { publicDir, mode: 'build' }),
+        basename(output.dest),
+      ]),
+    );
+
+    expect(names.map(([name]) => name).sort()).toEqual(['hero.png', 'images-a-logo.png', 'images-b-logo.png']);
+    for (const [name, dest] of names) {
+      expect(dest).toMatch(new RegExp(`^${name?.replace('.png', '')}-[\\da-f]{8}\\.png$`));
+    }
+  });
+
+  it('does not report a source matched by several targets', async () => {
+    const { collisions, dests } = await resolve('error', ['images/a/*.png', { src: 'images/a/*.png', hash: true }]);
+
+    expect(collisions).toEqual([]);
+    expect(dests).toHaveLength(2);
+  });
+});
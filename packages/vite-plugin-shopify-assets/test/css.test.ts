@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+
+describe('stylesheet references', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/images/bg.png': 'bg',
+      'public/vendor/slider/slider.css': [
+        '@import "../slider/theme.css";',
+        '.a { background: url(../../images/bg.png); }',
+        ".b { background: url('../../images/missing.png'); }",
+        '.c { background: url(data:image/png;base64,AAAA), url(/images/bg.png), url(https://cdn.shopify.com/bg.png); }',
+        '',
+      ].join('\n'),
+      'public/vendor/slider/theme.css': '.d { color: red; }\n',
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('rewrites relative references to their destination', async () => {
+    const logger = createMemoryLogger();
+    await fixture.build(
+      { manifest: false, targets: ['images/*', { src: 'vendor/*/*.css', cssUrls: true }] },
+      { customLogger: logger, logLevel: 'info' },
+    );
+
+    expect(await fixture.read('theme/assets/slider.css')).toBe(
+      [
+        '@import "theme.css";',
+        '.a { background: url(bg.png); }',
+        ".b { background: url('../../images/missing.png'); }",
+        '.c { background: url(data:image/png;base64,AAAA), url(/images/bg.png), url(https://cdn.shopify.com/bg.png); }',
+        '',
+      ].join('\n'),
+    );
+    expect(logger.messages).toContainEqual(expect.stringContaining('../../images/missing.png'));
+  });
+
+  it('rewrites references to asset_url in Liquid stylesheets, after hash', async () => {
+    await fixture.build({
+      manifest: false,
+      targets: [
+        { src: 'images/*', hash: true },
+        { src: 'vendor/*/*.css', cssUrls: { liquid: true } },
+      ],
+    });
+
+    // The fingerprinted name of the referenced file.
+    expect(await fixture.read('theme/assets/slider.css.liquid')).toMatch(
+      /^\.a \{ background: url\(\{\{ 'bg-[\da-f]{8}\.png' \| asset_url \}\}\); \}$/m,
+    );
+  });
+});
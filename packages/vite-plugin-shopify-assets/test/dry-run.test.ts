@@ -0,0 +1,45 @@
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+
+describe('dryRun', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/a.css': 'a {}', 'public/brand/logo.png': 'logo' });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('logs the files it would copy and write, without writing them', async () => {
+    const customLogger = createMemoryLogger();
+    await fixture.build({ targets: ['*.css', { src: 'brand/*.png', hash: true }], dryRun: true }, { customLogger });
+
+    expect(fixture.exists('theme/assets/a.css')).toBe(false);
+    expect(fixture.exists('theme/assets/shopify-assets-manifest.json')).toBe(false);
+    expect(fixture.exists('theme/.shopify-assets.json')).toBe(false);
+    expect(customLogger.messages).toContainEqual(
+      expect.stringMatching(/dry run: would copy .*theme\/assets\/a\.css \(matched target, from .*public\/a\.css\)/),
+    );
+    expect(customLogger.messages).toContainEqual(
+      expect.stringMatching(/dry run: would write .*shopify-assets-manifest\.json \(generated file changed\)/),
+    );
+  });
+
+  it('logs the files it would delete, with their reason, without deleting them', async () => {
+    await fixture.build({ targets: ['*.css'] });
+    await rm(fixture.path('public/a.css'));
+
+    const customLogger = createMemoryLogger();
+    await fixture.build({ targets: ['*.css'], dryRun: true }, { customLogger });
+
+    expect(fixture.exists('theme/assets/a.css')).toBe(true);
+    expect(customLogger.messages).toContainEqual(
+      expect.stringMatching(/dry run: would delete .*theme\/assets\/a\.css \(not in bundle\)/),
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createFixture } from './fixture.js';
+
+import type { Fixture, FixtureOptions } from './fixture.js';
+
+describe('one source, multiple outputs', () => {
+  const options: FixtureOptions = {
+    targets: [
+      'images/*.svg',
+      { src: 'images/logo.svg', svgSnippet: { comment: false } },
+      { src: 'images/logo.svg', dest: 'snippets', rename: 'logo-raw.liquid' },
+    ],
+  };
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/images/logo.svg':
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><path d="M0 0h10v10H0z"/></svg>',
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('writes the source once per target', async () => {
+    await fixture.build(options);
+
+    expect(await fixture.read('theme/assets/logo.svg')).toContain('<path d="M0 0h10v10H0z"/>');
+    expect(await fixture.read('theme/snippets/logo.liquid')).toContain('class="{{ class }}"');
+    expect(await fixture.read('theme/snippets/logo-raw.liquid')).toBe(await fixture.read('public/images/logo.svg'));
+  });
+
+  it('deletes every output of a deleted source', async () => {
+    const server = await fixture.serve(options);
+    expect(fixture.exists('theme/snippets/logo.liquid')).toBe(true);
+
+    await rm(fixture.path('public/images/logo.svg'));
+    await server.pluginContainer.watchChange(fixture.path('public/images/logo.svg'), { event: 'delete' });
+    await server.close();
+
+    expect(fixture.exists('theme/assets/logo.svg')).toBe(false);
+    expect(fixture.exists('theme/snippets/logo.liquid')).toBe(false);
+    expect(fixture.exists('theme/snippets/logo-raw.liquid')).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+
+import { build, createLogger, createServer, normalizePath } from 'vite';
+
+import shopifyAssets from '../src/index.js';
+import { resolveOptions } from '../src/options.js';
+
+import type { InlineConfig, Logger, ViteDevServer } from 'vite';
+import type { PluginShopifyAssetsOptions, ResolvedPluginShopifyAssetsOptions } from '../src/options.js';
+
+export type FixtureOptions = Omit<PluginShopifyAssetsOptions, 'themeRoot' | 'publicDir'>;
+
+export type Fixture = {
+  /**
+   * Temporary project directory, with the `public` (sources), `src` (Vite entry) and `theme` folders.
+   */
+  root: string;
+  publicDir: string;
+  themeRoot: string;
+  /**
+   * Absolute path of a file in the project directory.
+   */
+  path: (file: string) => string;
+  write: (file: string, content: string) => Promise<string>;
+  read: (file: string) => Promise<string>;
+  exists: (file: string) => boolean;
+  /**
+   * Resolves the plugin options of the fixture (single theme root), to call the plugin modules directly.
+   */
+  options: (options: FixtureOptions) => ResolvedPluginShopifyAssetsOptions;
+  /**
+   * Runs a Vite build of the project with the plugin, writing the bundle to `theme/assets`.
+   */
+  build: (options: FixtureOptions, config?: InlineConfig) => Promise<void>;
+  /**
+   * Starts a Vite dev server of the project with the plugin, which syncs the theme on start.
+   * File watching is disabled: watch events are sent through `server.pluginContainer.watchChange`.
+   */
+  serve: (options: FixtureOptions, config?: InlineConfig) => Promise<ViteDevServer>;
+  remove: () => Promise<void>;
+};
+
+/**
+ * A Vite logger which logs nothing.
+ */
+export const logger = createLogger('silent');
+
+/**
+ * A Vite logger which records its messages (without colors), to check what the plugin logs.
+ */
+export const createMemoryLogger = (): Logger & { messages: string[] } => {
+  const messages: string[] = [];
+  // eslint-disable-next-line no-control-regex
+  const log = (message: string) => void messages.push(message.replace(/\x1b\[\d+(?:;\d+)*m/g, ''));
+
+  return {
+    messages,
+    info: log,
+    warn: log,
+    warnOnce: log,
+    error: log,
+    clearScreen: () => undefined,
+    hasErrorLogged: () => false,
+    hasWarned: false,
+  };
+};
+
+/**
+ * Creates a temporary project with the given files (paths relative to the project directory).
+ */
+export const createFixture = async (files: Record<string, string> = {}): Promise<Fixture> => {
+  const root = normalizePath(await mkdtemp(join(tmpdir(), 'shopify-assets-')));
+  const path = (file: string) => normalizePath(join(root, file));
+
+  const write = async (file: string, content: string) => {
+    await mkdir(dirname(path(file)), { recursive: true });
+    await writeFile(path(file), content);
+    return path(file);
+  };
+
+  for (const [file, content] of Object.entries({ 'src/main.js': "console.log('theme');\n", ...files })) {
+    await write(file, content);
+  }
+  await mkdir(path('public'), { recursive: true });
+  await mkdir(path('theme/assets'), { recursive: true });
+
+  // The content cache is kept in the project, instead of the package `node_modules/.cache`.
+  const plugin = (options: FixtureOptions) =>
+    shopifyAssets({
+      cache: path('node_modules/.cache/content.json'),
+      ...options,
+      themeRoot: path('theme'),
+      publicDir: path('public'),
+    });
+
+  return {
+    root,
+    publicDir: path('public'),
+    themeRoot: path('theme'),
+    path,
+    write,
+    read: (file) => readFile(path(file), 'utf-8'),
+    exists: (file) => existsSync(path(file)),
+    options: (options) => {
+      const [resolved] = resolveOptions({
+        cache: false,
+        ...options,
+        themeRoot: path('theme'),
+        publicDir: path('public'),
+      });
+      if (!resolved) throw new Error('No theme root');
+      return resolved;
+    },
+    build: async (options, config = {}) => {
+      await build({
+        configFile: false,
+        root,
+        logLevel: 'silent',
+        ...config,
+        build: { outDir: path('theme/assets'), rollupOptions: { input: path('src/main.js') }, ...config.build },
+        plugins: [plugin(options)],
+      });
+    },
+    serve: (options, config = {}) =>
+      createServer({
+        configFile: false,
+        root,
+        logLevel: 'silent',
+        ...config,
+        server: { middlewareMode: true, watch: null, ws: false },
+        plugins: [plugin(options)],
+      }),
+    remove: () => rm(root, { recursive: true, force: true }),
+  };
+};
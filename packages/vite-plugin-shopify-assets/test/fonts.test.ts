@@ -0,0 +1,89 @@
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { parseFontName } from '../src/fonts.js';
+import { createFixture } from './fixture.js';
+
+import type { Fixture, FixtureOptions } from './fixture.js';
+
+describe('parseFontName', () => {
+  it('guesses the family, weight and style from the usual naming conventions', () => {
+    expect(parseFontName('Inter-BoldItalic')).toEqual({ family: 'Inter', weight: '700', style: 'italic' });
+    expect(parseFontName('inter_700_italic')).toEqual({ family: 'inter', weight: '700', style: 'italic' });
+    expect(parseFontName('OpenSans-Regular')).toEqual({ family: 'OpenSans', weight: '400', style: 'normal' });
+    expect(parseFontName('Roboto-Variable')).toEqual({ family: 'Roboto', weight: '100 900', style: 'normal' });
+    expect(parseFontName('Brand Display')).toEqual({ family: 'Brand Display', weight: '400', style: 'normal' });
+  });
+});
+
+describe('font faces', () => {
+  const options: FixtureOptions = {
+    manifest: false,
+    targets: [
+      {
+        src: 'fonts/*.{woff,woff2}',
+        fontFace: { preload: ['Inter'], fonts: { 'brand-display': { family: 'Brand', weight: 800 } } },
+      },
+    ],
+  };
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/fonts/Inter-Regular.woff': 'woff',
+      'public/fonts/Inter-Regular.woff2': 'woff2',
+      'public/fonts/Inter-BoldItalic.woff2': 'woff2',
+      'public/fonts/brand-display.woff2': 'woff2',
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('writes a snippet with the @font-face declarations and preload tags', async () => {
+    await fixture.build(options);
+
+    expect(fixture.exists('theme/assets/Inter-Regular.woff')).toBe(true);
+    expect(await fixture.read('theme/snippets/font-faces.liquid')).toBe(`{% comment %}
+  Font faces generated by vite-plugin-shopify-assets - do not edit this file directly.
+  Render it once in the <head> of your layout: {% render 'font-faces' %}
+{% endcomment %}
+<link rel="preload" href="{{ 'Inter-Regular.woff2' | asset_url }}" as="font" type="font/woff2" crossorigin>
+<link rel="preload" href="{{ 'Inter-BoldItalic.woff2' | asset_url }}" as="font" type="font/woff2" crossorigin>
+<style>
+  @font-face {
+    font-family: "Brand";
+    src: url("{{ 'brand-display.woff2' | asset_url }}") format("woff2");
+    font-weight: 800;
+    font-style: normal;
+    font-display: swap;
+  }
+
+  @font-face {
+    font-family: "Inter";
+    src: url("{{ 'Inter-Regular.woff2' | asset_url }}") format("woff2"),
+      url("{{ 'Inter-Regular.woff' | asset_url }}") format("woff");
+    font-weight: 400;
+    font-style: normal;
+    font-display: swap;
+  }
+
+  @font-face {
+    font-family: "Inter";
+    src: url("{{ 'Inter-BoldItalic.woff2' | asset_url }}") format("woff2");
+    font-weight: 700;
+    font-style: italic;
+    font-display: swap;
+  }
+</style>
+`);
+  });
+
+  it('regenerates the snippet when a font is removed', async () => {
+    await fixture.build(options);
+    await rm(fixture.path('public/fonts/brand-display.woff2'));
+    await fixture.build(options);
+
+    expect(await fixture.read('theme/snippets/font-faces.liquid')).not.toContain('Brand');
+  });
+});
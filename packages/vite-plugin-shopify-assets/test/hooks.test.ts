@@ -0,0 +1,84 @@
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createFixture } from './fixture.js';
+
+import type { AssetEvent } from '../src/options.js';
+import type { Fixture, FixtureOptions } from './fixture.js';
+
+describe('lifecycle hooks', () => {
+  let fixture: Fixture;
+  let events: [string, Partial<AssetEvent>][];
+  let options: FixtureOptions;
+
+  const record =
+    (hook: string) =>
+    ({ type, src, dest, reason }: AssetEvent) =>
+      void events.push([hook, { type, src, dest, reason }]);
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/fonts/font.woff2': 'font' });
+    events = [];
+    options = {
+      targets: ['fonts/*'],
+      manifest: false,
+      onAssetCopied: record('copied'),
+      onAssetDeleted: record('deleted'),
+      onAssetSkipped: record('skipped'),
+    };
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('reports copied, skipped and deleted files', async () => {
+    const src = fixture.path('public/fonts/font.woff2');
+    const dest = fixture.path('theme/assets/font.woff2');
+
+    await fixture.build(options);
+    expect(events).toEqual([['copied', { type: 'create', src, dest, reason: undefined }]]);
+
+    events = [];
+    await fixture.build(options);
+    expect(events).toEqual([['skipped', { type: 'update', src, dest, reason: 'unchanged' }]]);
+
+    events = [];
+    await rm(src);
+    await fixture.build(options);
+    expect(events).toEqual([['deleted', { type: 'delete', src: undefined, dest, reason: 'not in bundle' }]]);
+  });
+
+  it('awaits the hooks before going on', async () => {
+    const copied: string[] = [];
+
+    await fixture.build({
+      ...options,
+      onAssetCopied: async ({ dest }) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        copied.push(dest);
+      },
+    });
+
+    expect(copied).toEqual([fixture.path('theme/assets/font.woff2')]);
+  });
+
+  it('reports copy errors to onError', async () => {
+    const errors: [string, string][] = [];
+
+    await fixture.build({
+      ...options,
+      targets: [
+        {
+          src: 'fonts/*',
+          transform: () => {
+            throw new Error('Invalid font');
+          },
+        },
+      ],
+      onError: (error, { dest }) => void errors.push([error.message, dest]),
+    });
+
+    expect(errors).toEqual([['Invalid font', fixture.path('theme/assets/font.woff2')]]);
+    expect(fixture.exists('theme/assets/font.woff2')).toBe(false);
+  });
+});
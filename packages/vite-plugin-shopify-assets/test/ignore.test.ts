@@ -0,0 +1,84 @@
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createShopifyIgnoreMatcher, parseShopifyIgnore, updateIgnoreBlock } from '../src/ignore.js';
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { Fixture, FixtureOptions } from './fixture.js';
+
+const BLOCK_START = '# >>> vite-plugin-shopify-assets (generated files, do not edit)';
+const BLOCK_END = '# <<< vite-plugin-shopify-assets';
+
+describe('createShopifyIgnoreMatcher', () => {
+  it('matches globs, folders and regular expressions the way Shopify CLI does', () => {
+    const match = createShopifyIgnoreMatcher(
+      parseShopifyIgnore(['# comment', 'locales/*.json', '*.map', 'config/', '/\\.png$/', ''].join('\n')),
+    );
+
+    expect(match('locales/en.default.json')).toBe('locales/*.json');
+    expect(match('assets/app.js.map')).toBe('*.map');
+    expect(match('config/settings_data.json')).toBe('config/');
+    expect(match('assets/logo.png')).toBe('/\\.png$/');
+    expect(match('assets/app.js')).toBeUndefined();
+  });
+});
+
+describe('updateIgnoreBlock', () => {
+  it('appends, replaces and removes the managed block, keeping the other lines', () => {
+    const appended = updateIgnoreBlock('node_modules', ['/theme/assets/a.woff2']);
+    expect(appended).toBe(`node_modules\n\n${BLOCK_START}\n/theme/assets/a.woff2\n${BLOCK_END}\n`);
+
+    const replaced = updateIgnoreBlock(`${appended}dist\n`, ['/theme/assets/b.woff2']);
+    expect(replaced).toBe(`node_modules\n\n${BLOCK_START}\n/theme/assets/b.woff2\n${BLOCK_END}\ndist\n`);
+
+    expect(updateIgnoreBlock(replaced, [])).toBe('node_modules\n\ndist\n');
+  });
+});
+
+describe('ignore files', () => {
+  let fixture: Fixture;
+  let options: FixtureOptions;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      '.gitignore': 'node_modules\n',
+      'public/fonts/a.woff2': 'a',
+      'public/fonts/b.woff2': 'b',
+      'theme/.shopifyignore': 'assets/b.*\n',
+    });
+    options = { manifest: false, targets: ['fonts/*'], gitignore: fixture.path('.gitignore'), shopifyignore: true };
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('warns about the written files matching .shopifyignore', async () => {
+    const logger = createMemoryLogger();
+    await fixture.build(options, { customLogger: logger, logLevel: 'info' });
+
+    expect(logger.messages).toContainEqual(
+      expect.stringContaining(
+        '[shopify-assets] assets/b.woff2 matches "assets/b.*" in .shopifyignore - Shopify CLI will not upload it',
+      ),
+    );
+    expect(logger.messages.join('\n')).not.toContain('assets/a.woff2 matches');
+  });
+
+  it('lists the written files in the managed blocks', async () => {
+    await fixture.build(options);
+
+    expect(await fixture.read('.gitignore')).toBe(
+      `node_modules\n\n${BLOCK_START}\n/theme/assets/a.woff2\n/theme/assets/b.woff2\n${BLOCK_END}\n`,
+    );
+    expect(await fixture.read('theme/.shopifyignore')).toBe(
+      `assets/b.*\n\n${BLOCK_START}\nassets/a.woff2\nassets/b.woff2\n${BLOCK_END}\n`,
+    );
+
+    await rm(fixture.path('public/fonts/b.woff2'));
+    await fixture.build(options);
+
+    expect(await fixture.read('.gitignore')).toBe(
+      `node_modules\n\n${BLOCK_START}\n/theme/assets/a.woff2\n${BLOCK_END}\n`,
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import { mkdir, rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createLedger } from '../src/ledger.js';
+import { createContentCache } from '../src/cache.js';
+import { syncAssets } from '../src/sync.js';
+import { resolveAssetMap, syncAssetMap } from '../src/assets.js';
+import { copyAllAssetMap, writeFileIfChanged } from '../src/utils.js';
+import { createFixture, logger } from './fixture.js';
+
+import type { Fixture, FixtureOptions } from './fixture.js';
+import type { SyncContext } from '../src/sync.js';
+
+describe('createLedger', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture();
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('only allows deleting recorded files', () => {
+    const ledger = createLedger(fixture.themeRoot, fixture.path('theme/.shopify-assets.json'), []);
+    ledger.add(fixture.path('theme/assets/a.css'));
+
+    expect(ledger.canDelete(fixture.path('theme/assets/a.css'))).toBe(true);
+    expect(ledger.canDelete(fixture.path('theme/assets/b.css'))).toBe(false);
+
+    ledger.delete(fixture.path('theme/assets/a.css'));
+    expect(ledger.canDelete(fixture.path('theme/assets/a.css'))).toBe(false);
+  });
+
+  it('never allows deleting preserved files', () => {
+    const ledger = createLedger(fixture.themeRoot, fixture.path('theme/.shopify-assets.json'), ['assets/app-*.js']);
+    ledger.add(fixture.path('theme/assets/app-a.js'));
+
+    expect(ledger.canDelete(fixture.path('theme/assets/app-a.js'))).toBe(false);
+  });
+
+  it('allows deleting any file that is not preserved when disabled', () => {
+    const ledger = createLedger(fixture.themeRoot, undefined, ['assets/app-*.js']);
+
+    expect(ledger.canDelete(fixture.path('theme/assets/a.css'))).toBe(true);
+    expect(ledger.canDelete(fixture.path('theme/assets/app-a.js'))).toBe(false);
+  });
+
+  it('keeps the recorded files between runs', async () => {
+    const ledgerFile = fixture.path('theme/.shopify-assets.json');
+    const ledger = createLedger(fixture.themeRoot, ledgerFile, []);
+    ledger.add(fixture.path('theme/assets/b.css'));
+    ledger.add(fixture.path('theme/assets/a.css'));
+    await ledger.save();
+
+    expect(JSON.parse(await fixture.read('theme/.shopify-assets.json'))).toEqual({
+      version: 1,
+      files: ['assets/a.css', 'assets/b.css'],
+    });
+
+    const nextLedger = createLedger(fixture.themeRoot, ledgerFile, []);
+    await nextLedger.load();
+    expect(nextLedger.canDelete(fixture.path('theme/assets/a.css'))).toBe(true);
+  });
+
+  it('lists the recorded files created by the plugin, without the ones of the Vite build', async () => {
+    const ledgerFile = fixture.path('theme/.shopify-assets.json');
+    const ledger = createLedger(fixture.themeRoot, ledgerFile, []);
+    ledger.add(fixture.path('theme/snippets/a.liquid'));
+    ledger.add(fixture.path('theme/assets/app-1a2b3c4d.js'), true);
+    await ledger.save();
+
+    const nextLedger = createLedger(fixture.themeRoot, ledgerFile, []);
+    await nextLedger.load();
+    expect(nextLedger.files()).toEqual([fixture.path('theme/snippets/a.liquid')]);
+    expect(nextLedger.canDelete(fixture.path('theme/assets/app-1a2b3c4d.js'))).toBe(true);
+  });
+});
+
+describe('build cleanup', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/a.css': 'a {}', 'public/b.css': 'b {}' });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('only deletes the stale files written by the plugin', async () => {
+    await fixture.build({ targets: ['*.css'] });
+    await fixture.write('theme/assets/merchant.css', '/* theme editor */');
+    await rm(fixture.path('public/a.css'));
+
+    await fixture.build({ targets: ['*.css'] });
+
+    expect(fixture.exists('theme/assets/a.css')).toBe(false);
+    expect(fixture.exists('theme/assets/b.css')).toBe(true);
+    expect(fixture.exists('theme/assets/merchant.css')).toBe(true);
+  });
+
+  it('never deletes the preserved files', async () => {
+    await fixture.build({ targets: ['*.css'], preserve: ['assets/a.*'] });
+    await rm(fixture.path('public/a.css'));
+
+    await fixture.build({ targets: ['*.css'], preserve: ['assets/a.*'] });
+
+    expect(fixture.exists('theme/assets/a.css')).toBe(true);
+  });
+
+  it('keeps the files which could not be deleted in the ledger', async () => {
+    await fixture.build({ targets: ['*.css'] });
+    await rm(fixture.path('public/a.css'));
+    // A directory in place of the file makes its deletion fail.
+    await rm(fixture.path('theme/assets/a.css'));
+    await mkdir(fixture.path('theme/assets/a.css'));
+
+    await fixture.build({ targets: ['*.css'] });
+
+    const { files } = JSON.parse(await fixture.read('theme/.shopify-assets.json')) as { files: string[] };
+    expect(files).toContain('assets/a.css');
+  });
+});
+
+describe('file ownership', () => {
+  let fixture: Fixture;
+
+  const resolve = async (options: FixtureOptions) => {
+    const { publicDir, targets, themeRoot, ledger: ledgerFile } = fixture.options(options);
+    const { assetMap } = await resolveAssetMap(targets, { publicDir, collisions: 'warn-first-wins', mode: 'build' });
+    const ledger = createLedger(themeRoot, ledgerFile, []);
+
+    return { assetMap, ledger, naming: { publicDir, mode: 'build' as const } };
+  };
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/app.css': 'body {}',
+      'public/merchant.css': 'a {}',
+      'theme/assets/merchant.css': '/* merchant */',
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('records the files created by the plugin', async () => {
+    const { assetMap, ledger } = await resolve({ targets: ['*.css'] });
+    await copyAllAssetMap(assetMap, logger, { ledger });
+
+    expect(ledger.canDelete(fixture.path('theme/assets/app.css'))).toBe(true);
+  });
+
+  it('never records a file that existed before, even when it is overwritten', async () => {
+    const { assetMap, ledger } = await resolve({ targets: ['*.css'] });
+    await copyAllAssetMap(assetMap, logger, { ledger });
+
+    expect(await fixture.read('theme/assets/merchant.css')).toBe('a {}');
+    expect(ledger.canDelete(fixture.path('theme/assets/merchant.css'))).toBe(false);
+  });
+
+  it('never records a file that could not be copied', async () => {
+    const { assetMap, ledger, naming } = await resolve({ targets: [{ src: '*.css', force: 'error' }] });
+    await copyAllAssetMap(assetMap, logger, { ledger });
+
+    expect(await fixture.read('theme/assets/merchant.css')).toBe('/* merchant */');
+    expect(ledger.canDelete(fixture.path('theme/assets/merchant.css'))).toBe(false);
+
+    // Once its source is removed, the existing file is kept.
+    const next = new Map(assetMap);
+    next.delete(fixture.path('public/merchant.css'));
+    await syncAssetMap(assetMap, next, logger, { naming, ledger });
+
+    expect(await fixture.read('theme/assets/merchant.css')).toBe('/* merchant */');
+  });
+
+  it('deletes a created file once its source is removed', async () => {
+    const { assetMap, ledger, naming } = await resolve({ targets: ['*.css'] });
+    await copyAllAssetMap(assetMap, logger, { ledger });
+
+    const next = new Map(assetMap);
+    next.delete(fixture.path('public/app.css'));
+    next.delete(fixture.path('public/merchant.css'));
+    await syncAssetMap(assetMap, next, logger, { naming, ledger });
+
+    expect(fixture.exists('theme/assets/app.css')).toBe(false);
+    expect(fixture.exists('theme/assets/merchant.css')).toBe(true);
+  });
+
+  it('keeps a file in the ledger when it could not be deleted', async () => {
+    const { assetMap, ledger, naming } = await resolve({ targets: ['*.css'] });
+    await copyAllAssetMap(assetMap, logger, { ledger });
+    await rm(fixture.path('theme/assets/app.css'));
+    await mkdir(fixture.path('theme/assets/app.css'));
+
+    const next = new Map(assetMap);
+    next.delete(fixture.path('public/app.css'));
+    await syncAssetMap(assetMap, next, logger, { naming, ledger });
+
+    expect(ledger.canDelete(fixture.path('theme/assets/app.css'))).toBe(true);
+  });
+
+  it('only records the generated files created by the plugin', async () => {
+    const { ledger } = await resolve({ targets: [] });
+    await writeFileIfChanged(fixture.path('theme/snippets/a.liquid'), 'a', logger, { ledger });
+    await writeFileIfChanged(fixture.path('theme/assets/merchant.css'), 'b {}', logger, { ledger });
+
+    expect(ledger.canDelete(fixture.path('theme/snippets/a.liquid'))).toBe(true);
+    expect(ledger.canDelete(fixture.path('theme/assets/merchant.css'))).toBe(false);
+  });
+});
+
+describe('cleanAssets', () => {
+  let fixture: Fixture;
+
+  const sync = async (options: FixtureOptions) => {
+    const resolvedOptions = fixture.options(options);
+    const context: SyncContext = {
+      logger,
+      ledger: createLedger(resolvedOptions.themeRoot, resolvedOptions.ledger, resolvedOptions.preserve),
+      manifest: new Map(),
+      cache: createContentCache(undefined),
+      hooks: {},
+      mode: 'build',
+    };
+
+    return syncAssets(resolvedOptions, context);
+  };
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/icons/cart.svg': '<svg />' });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('deletes the created files which no target produces anymore', async () => {
+    await sync({ targets: [{ src: 'icons/*.svg', dest: 'snippets', rename: 'icon-[name].liquid' }] });
+    expect(fixture.exists('theme/snippets/icon-cart.liquid')).toBe(true);
+
+    await sync({ targets: [{ src: 'icons/*.svg', dest: 'snippets', rename: '[name].liquid' }] });
+    expect(fixture.exists('theme/snippets/icon-cart.liquid')).toBe(false);
+    expect(fixture.exists('theme/snippets/cart.liquid')).toBe(true);
+  });
+
+  it('keeps the files emitted by the Vite build and the files not created by the plugin', async () => {
+    await fixture.write('theme/snippets/merchant.liquid', 'merchant');
+    await fixture.write('theme/assets/app-1a2b3c4d.js', 'app');
+    const ledger = createLedger(fixture.themeRoot, fixture.path('theme/.shopify-assets.json'), []);
+    ledger.add(fixture.path('theme/assets/app-1a2b3c4d.js'), true);
+    await ledger.save();
+
+    await sync({ targets: [{ src: 'icons/*.svg', dest: 'snippets', rename: '[name].liquid' }] });
+
+    expect(fixture.exists('theme/snippets/merchant.liquid')).toBe(true);
+    expect(fixture.exists('theme/assets/app-1a2b3c4d.js')).toBe(true);
+  });
+});
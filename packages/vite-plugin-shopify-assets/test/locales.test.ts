@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { getLocaleFileName, mergeMerchantEdits } from '../src/locales.js';
+import { createFixture } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+
+describe('getLocaleFileName', () => {
+  it('reads the locale before the extension of the fragment', () => {
+    expect(getLocaleFileName('components/counter.en.json', 'en')).toBe('en.default.json');
+    expect(getLocaleFileName('components/counter.fr.json', 'en')).toBe('fr.json');
+    expect(getLocaleFileName('components/counter.pt-BR.json', 'en')).toBe('pt-BR.json');
+    expect(getLocaleFileName('components/counter.en.schema.json', 'en')).toBe('en.default.schema.json');
+  });
+
+  it('ignores the JSON files without a name before their locale', () => {
+    expect(getLocaleFileName('components/faq.json', 'en')).toBeUndefined();
+    expect(getLocaleFileName('components/nav.json', 'en')).toBeUndefined();
+    expect(getLocaleFileName('components/en.json', 'en')).toBeUndefined();
+    expect(getLocaleFileName('components/en.schema.json', 'en')).toBeUndefined();
+    expect(getLocaleFileName('components/counter.data.json', 'en')).toBeUndefined();
+  });
+});
+
+describe('mergeMerchantEdits', () => {
+  it('keeps the values edited since the previous snapshot', () => {
+    const generated = { counter: { add: 'Add', remove: 'Remove item' } };
+    const existing = { counter: { add: 'Add to cart', remove: 'Remove' }, custom: 'Custom' };
+    const previous = { counter: { add: 'Add', remove: 'Remove' } };
+
+    expect(mergeMerchantEdits(generated, existing, previous)).toEqual({
+      counter: { add: 'Add to cart', remove: 'Remove item' },
+      custom: 'Custom',
+    });
+  });
+
+  it('keeps the existing values without a previous snapshot', () => {
+    const generated = { counter: { add: 'Add', remove: 'Remove' }, title: 'Counter' };
+    const existing = { counter: { add: 'Add to cart' }, title: 'My counter', custom: 'Custom' };
+
+    expect(mergeMerchantEdits(generated, existing)).toEqual({
+      counter: { add: 'Add to cart', remove: 'Remove' },
+      title: 'My counter',
+      custom: 'Custom',
+    });
+  });
+});
+
+describe('locale files', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/components/counter.en.json': JSON.stringify({ counter: { add: 'Add', remove: 'Remove' } }),
+      'theme/locales/en.default.json': JSON.stringify({ counter: { add: 'Add to cart' }, custom: 'Custom' }),
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('keeps the merchant values of an existing file without a cache', async () => {
+    await fixture.build({ cache: false, manifest: false, targets: [{ src: 'components/*.json', locales: true }] });
+
+    expect(JSON.parse(await fixture.read('theme/locales/en.default.json'))).toEqual({
+      counter: { add: 'Add to cart', remove: 'Remove' },
+      custom: 'Custom',
+    });
+  });
+});
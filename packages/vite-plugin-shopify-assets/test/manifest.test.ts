@@ -0,0 +1,98 @@
+import { readdir } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { buildManifestSnippet, getManifestRecord } from '../src/manifest.js';
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+
+describe('asset manifest', () => {
+  it('lists the fingerprinted file names by logical name', () => {
+    const record = getManifestRecord(
+      new Map([
+        ['/public/b.png', { name: 'b.png', dest: '/theme/assets/b-22222222.png' }],
+        ['/public/a.png', { name: 'a.png', dest: '/theme/assets/a-11111111.png' }],
+      ]),
+    );
+
+    expect(record).toEqual({ 'a.png': 'a-11111111.png', 'b.png': 'b-22222222.png' });
+    expect(Object.keys(record)).toEqual(['a.png', 'b.png']);
+  });
+
+  it('resolves the logical names to their asset_url in the Liquid snippet', () => {
+    const snippet = buildManifestSnippet({ 'logo.png': 'logo-1a2b3c4d.png' }, 'asset-url');
+
+    expect(snippet).toContain(
+      "{%- case name -%}\n  {%- when 'logo.png' -%}{{ 'logo-1a2b3c4d.png' | asset_url }}\n  {%- else -%}{{ name | asset_url }}\n{%- endcase -%}",
+    );
+    expect(snippet).toContain("{% render 'asset-url', name: 'logo.png' %}");
+  });
+
+  it('leaves out of the Liquid snippet the names which can not be quoted', () => {
+    const snippet = buildManifestSnippet(
+      { "it's.png": "it's-1a2b3c4d.png", 'a%}b.png': 'a%}b-1a2b3c4d.png', 'logo.png': 'logo-1a2b3c4d.png' },
+      'asset-url',
+    );
+
+    expect(snippet).toContain("{%- when 'logo.png' -%}");
+    expect(snippet).not.toContain("it's");
+    expect(snippet).not.toContain('a%}b');
+  });
+});
+
+describe('hash target', () => {
+  let fixture: Fixture;
+
+  const listAssets = async () =>
+    (await readdir(fixture.path('theme/assets'))).filter((file) => file.startsWith('logo'));
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/brand/logo.png': 'logo' });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('fingerprints the copied files and writes the asset manifest', async () => {
+    await fixture.build({ targets: [{ src: 'brand/*.png', hash: true }] });
+
+    const [logo] = await listAssets();
+    expect(logo).toMatch(/^logo-[\da-f]{8}\.png$/);
+    expect(JSON.parse(await fixture.read('theme/assets/shopify-assets-manifest.json'))).toEqual({ 'logo.png': logo });
+    expect(await fixture.read('theme/snippets/asset-url.liquid')).toContain(`{{ '${logo}' | asset_url }}`);
+  });
+
+  it('warns about the names left out of the Liquid snippet', async () => {
+    await fixture.write("public/brand/logo's.png", 'logo');
+    const logger = createMemoryLogger();
+    await fixture.build({ targets: [{ src: 'brand/*.png', hash: true }] }, { customLogger: logger, logLevel: 'info' });
+
+    const record = JSON.parse(await fixture.read('theme/assets/shopify-assets-manifest.json')) as Record<
+      string,
+      string
+    >;
+    expect(Object.keys(record)).toEqual(['logo.png', "logo's.png"]);
+    expect(await fixture.read('theme/snippets/asset-url.liquid')).not.toContain("logo's");
+    expect(logger.messages).toContain(
+      "[shopify-assets] logo's.png is left out of asset-url.liquid: its name can not be quoted in Liquid",
+    );
+  });
+
+  it('supports custom patterns with a hash length', async () => {
+    await fixture.build({ targets: [{ src: 'brand/*.png', hash: '[name].[hash:4].[ext]' }] });
+
+    expect(await listAssets()).toEqual([expect.stringMatching(/^logo\.[\da-f]{4}\.png$/)]);
+  });
+
+  it('deletes the stale fingerprinted copies once the content changed', async () => {
+    await fixture.build({ targets: [{ src: 'brand/*.png', hash: true }] });
+    const [previous] = await listAssets();
+
+    await fixture.write('public/brand/logo.png', 'new logo');
+    await fixture.build({ targets: [{ src: 'brand/*.png', hash: true }] });
+
+    const assets = await listAssets();
+    expect(assets).toHaveLength(1);
+    expect(assets).not.toContain(previous);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { collapseChangeEvents, createWriteQueue } from '../src/queue.js';
+
+import type { ChangeEvent } from 'rollup';
+
+describe('collapseChangeEvents', () => {
+  it('collapses the successive changes of a file', () => {
+    expect(collapseChangeEvents(undefined, 'create')).toBe('create');
+    expect(collapseChangeEvents('create', 'update')).toBe('create');
+    expect(collapseChangeEvents('create', 'delete')).toBeUndefined();
+    expect(collapseChangeEvents('delete', 'create')).toBe('update');
+    expect(collapseChangeEvents('update', 'create')).toBe('update');
+    expect(collapseChangeEvents('update', 'delete')).toBe('delete');
+  });
+});
+
+describe('createWriteQueue', () => {
+  let batches: Array<Map<string, ChangeEvent>>;
+
+  const write = (changes: Map<string, ChangeEvent>): Promise<void> => {
+    batches.push(changes);
+    return Promise.resolve();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    batches = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('writes the changes as a single batch once the debounce window is over', async () => {
+    const queue = createWriteQueue(100, write, vi.fn());
+
+    queue.push('a.css', 'create');
+    await vi.advanceTimersByTimeAsync(50);
+    queue.push('b.css', 'update');
+    queue.push('c.css', 'create');
+    queue.push('c.css', 'delete');
+    await vi.advanceTimersByTimeAsync(50);
+    expect(batches).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(batches).toEqual([
+      new Map([
+        ['a.css', 'create'],
+        ['b.css', 'update'],
+      ]),
+    ]);
+  });
+
+  it('writes the pending changes right away on flush', async () => {
+    const queue = createWriteQueue(100, write, vi.fn());
+
+    queue.push('a.css', 'update');
+    await queue.flush();
+    expect(batches).toEqual([new Map([['a.css', 'update']])]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(batches).toHaveLength(1);
+  });
+
+  it('keeps writing the next batches once a batch failed', async () => {
+    const onError = vi.fn();
+    const queue = createWriteQueue(
+      100,
+      (changes) => (changes.has('broken.css') ? Promise.reject(new Error('EACCES')) : write(changes)),
+      onError,
+    );
+
+    queue.push('broken.css', 'update');
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onError).toHaveBeenCalledWith(new Error('EACCES'));
+
+    queue.push('a.css', 'update');
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(queue.flush()).resolves.toBeUndefined();
+    expect(batches).toEqual([new Map([['a.css', 'update']])]);
+  });
+});
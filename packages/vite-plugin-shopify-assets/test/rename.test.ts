@@ -0,0 +1,76 @@
+import { createHash } from 'node:crypto';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createFixture } from './fixture.js';
+
+import type { RenameContext } from '../src/options.js';
+import type { Fixture } from './fixture.js';
+
+describe('rename', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/images/home/hero.png': 'hero',
+      'public/fonts/font.woff2': 'font',
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('replaces the file name tokens', async () => {
+    await fixture.build({
+      manifest: false,
+      targets: [
+        { src: 'images/**/*.png', rename: '[dir]-[name].[ext]' },
+        { src: 'fonts/*.woff2', rename: '[name].[hash:4].[ext]' },
+      ],
+    });
+
+    expect(await fixture.read('theme/assets/images-home-hero.png')).toBe('hero');
+    expect(await fixture.read('theme/assets/font.795e.woff2')).toBe('font');
+  });
+
+  it('cleans the stale copies of a hashed name', async () => {
+    const options = { manifest: false as const, targets: [{ src: 'fonts/*.woff2', rename: '[name].[hash:4].[ext]' }] };
+
+    await fixture.build(options);
+    await fixture.write('public/fonts/font.woff2', 'font v2');
+    await fixture.build(options);
+
+    expect(fixture.exists('theme/assets/font.795e.woff2')).toBe(false);
+    expect(await fixture.read('theme/assets/font.53ec.woff2')).toBe('font v2');
+  });
+
+  it('passes a rename context to rename functions', async () => {
+    const contexts: Omit<RenameContext, 'target' | 'hash'>[] = [];
+    const hashes = new Set<string>();
+    const options = {
+      manifest: false as const,
+      targets: [
+        {
+          src: 'images/**/*.png',
+          rename: (file: string, ext: string, src: string, { path, dirs, hash, mode }: RenameContext) => {
+            contexts.push({ src, path, dirs, mode });
+            hashes.add(hash);
+            return `${dirs.join('_')}_${file}.${ext}`;
+          },
+        },
+      ],
+    };
+
+    await fixture.build(options);
+    await (await fixture.serve(options)).close();
+
+    const context = {
+      src: fixture.path('public/images/home/hero.png'),
+      path: 'images/home/hero.png',
+      dirs: ['images', 'home'],
+    };
+    expect(contexts).toContainEqual({ ...context, mode: 'build' });
+    expect(contexts).toContainEqual({ ...context, mode: 'serve' });
+    expect(hashes).toContain(createHash('sha256').update('hero').digest('hex'));
+    expect(await fixture.read('theme/assets/images_home_hero.png')).toBe('hero');
+  });
+});
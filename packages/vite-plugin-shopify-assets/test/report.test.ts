@@ -0,0 +1,104 @@
+import { relative } from 'node:path';
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { build, normalizePath } from 'vite';
+
+import shopifyAssets from '../src/index.js';
+import { resolveOptions } from '../src/options.js';
+import { createFixture } from './fixture.js';
+
+import type { RollupWatcher } from 'rollup';
+import type { BuildReport } from '../src/report.js';
+import type { Fixture, FixtureOptions } from './fixture.js';
+
+describe('logLevel', () => {
+  const getLogLevel = (options: { logLevel?: 'warn'; silent?: boolean }) =>
+    resolveOptions({ themeRoot: '/project/theme', targets: [], ...options })[0]?.logLevel;
+
+  it('maps the deprecated silent option', () => {
+    expect(getLogLevel({})).toBe('info');
+    expect(getLogLevel({ silent: true })).toBe('silent');
+    expect(getLogLevel({ silent: false })).toBe('verbose');
+    expect(getLogLevel({ silent: true, logLevel: 'warn' })).toBe('warn');
+  });
+});
+
+describe('build report', () => {
+  let fixture: Fixture;
+  let options: FixtureOptions;
+
+  const toRelative = (file: string) => normalizePath(relative(process.cwd(), fixture.path(file)));
+  const readReport = async () => JSON.parse(await fixture.read('report.json')) as BuildReport;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/fonts/a.woff2': 'a',
+      'public/fonts/b.woff2': 'b',
+      'public/images/logo.png': 'logo',
+    });
+    options = {
+      manifest: false,
+      report: fixture.path('report.json'),
+      targets: ['fonts/*', { src: 'images/*', rename: 'brand-[name].[ext]' }],
+    };
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('lists the copied and renamed files', async () => {
+    await fixture.build(options);
+    const report = await readReport();
+
+    expect(report.summary).toEqual({
+      copied: 3,
+      unchanged: 0,
+      skipped: 0,
+      renamed: 1,
+      deduplicated: 0,
+      deleted: 0,
+      failed: 0,
+    });
+    expect(report.files).toContainEqual({
+      action: 'renamed',
+      src: toRelative('public/images/logo.png'),
+      dest: toRelative('theme/assets/brand-logo.png'),
+      target: toRelative('public/images/*'),
+      reason: 'rename',
+    });
+  });
+
+  it('lists the files deleted in watch mode in the report of the next rebuild', async () => {
+    const watcher = (await build({
+      configFile: false,
+      root: fixture.root,
+      logLevel: 'silent',
+      build: {
+        outDir: fixture.path('theme/assets'),
+        rollupOptions: { input: fixture.path('src/main.js') },
+        watch: {},
+      },
+      plugins: [shopifyAssets({ ...options, themeRoot: fixture.themeRoot, publicDir: fixture.publicDir })],
+    })) as RollupWatcher;
+
+    try {
+      await vi.waitFor(async () => expect((await readReport()).summary.copied).toBe(3), { timeout: 5000 });
+
+      await rm(fixture.path('public/fonts/a.woff2'));
+
+      await vi.waitFor(
+        async () =>
+          expect((await readReport()).files).toContainEqual({
+            action: 'deleted',
+            src: toRelative('public/fonts/a.woff2'),
+            dest: toRelative('theme/assets/a.woff2'),
+            target: toRelative('public/fonts/*'),
+            reason: 'source deleted',
+          }),
+        { timeout: 5000 },
+      );
+    } finally {
+      await watcher.close();
+    }
+  });
+});
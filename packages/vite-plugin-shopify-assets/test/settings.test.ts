@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { buildSettingsSchema } from '../src/settings.js';
+import { loadJsonModule } from '../src/utils.js';
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { Fixture, FixtureOptions } from './fixture.js';
+
+describe('buildSettingsSchema', () => {
+  const themeInfo = { name: 'theme_info', theme_name: 'Theme' };
+  const colors = { name: 'Colors', settings: [{ type: 'color', id: 'color_text' }] };
+
+  it('concatenates the fragments in order, theme_info first', () => {
+    const typography = { name: 'Typography', settings: [{ type: 'font_picker', id: 'type_body' }] };
+
+    expect(
+      buildSettingsSchema([
+        ['/settings/10-colors.json', colors],
+        ['/settings/20-theme.json', [themeInfo, typography]],
+      ]),
+    ).toEqual([themeInfo, colors, typography]);
+  });
+
+  it('rejects duplicated setting ids', () => {
+    expect(() =>
+      buildSettingsSchema([
+        ['/settings/10-colors.json', colors],
+        ['/settings/20-more-colors.json', colors],
+      ]),
+    ).toThrow('Setting ids must be unique:\n  - "color_text" is defined in');
+  });
+
+  it('rejects fragments which are not settings groups', () => {
+    expect(() => buildSettingsSchema([['/settings/10-colors.json', 'colors']])).toThrow('must export settings groups');
+  });
+});
+
+describe('settings schema', () => {
+  const options: FixtureOptions = { manifest: false, targets: [{ src: 'settings/*.{json,ts}', settingsSchema: true }] };
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/settings/00-theme-info.json': JSON.stringify({ name: 'theme_info', theme_name: 'Theme' }),
+      'public/settings/10-colors.ts': [
+        "const id: string = 'color_text';",
+        "export default { name: 'Colors', settings: [{ type: 'color', id }] };",
+        '',
+      ].join('\n'),
+    });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('assembles the JSON and module fragments into config/settings_schema.json', async () => {
+    await fixture.build(options);
+
+    expect(JSON.parse(await fixture.read('theme/config/settings_schema.json'))).toEqual([
+      { name: 'theme_info', theme_name: 'Theme' },
+      { name: 'Colors', settings: [{ type: 'color', id: 'color_text' }] },
+    ]);
+  });
+
+  it('does not write the file when setting ids are duplicated', async () => {
+    await fixture.write(
+      'public/settings/20-more-colors.json',
+      JSON.stringify({ name: 'More colors', settings: [{ id: 'color_text' }] }),
+    );
+    const logger = createMemoryLogger();
+    await fixture.build(options, { customLogger: logger, logLevel: 'info' });
+
+    expect(fixture.exists('theme/config/settings_schema.json')).toBe(false);
+    expect(logger.messages.join('\n')).toContain('"color_text" is defined in');
+  });
+
+  it('loads the module fragments without writing next to them', async () => {
+    await fixture.write(
+      'public/settings/20-files.ts',
+      "import { readdirSync } from 'node:fs';\nexport default readdirSync(new URL('.', import.meta.url));\n",
+    );
+
+    expect(await loadJsonModule(fixture.path('public/settings/20-files.ts'))).toEqual([
+      '00-theme-info.json',
+      '10-colors.ts',
+      '20-files.ts',
+    ]);
+  });
+});
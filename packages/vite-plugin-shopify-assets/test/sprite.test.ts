@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { buildIconSnippet, buildSprite, getIconSize, getSymbolId, readSymbols } from '../src/sprite.js';
+import { createFixture } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+import type { ResolvedSpriteOptions } from '../src/options.js';
+
+describe('sprite', () => {
+  let fixture: Fixture;
+  let sprite: ResolvedSpriteOptions;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/sprite/cart.svg': '<svg width="20" height="20"><path d="M1 1"/></svg>',
+      'public/sprite/icon-user.svg': "<svg viewBox='0 0 20 20'><circle r='4'/></svg>",
+    });
+    sprite = {
+      file: fixture.path('theme/snippets/icon-sprite.liquid'),
+      iconSnippet: fixture.path('theme/snippets/icon.liquid'),
+      idPrefix: 'icon-',
+    };
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('prefixes the symbol ids, unless the file name already starts with the prefix', () => {
+    expect(getSymbolId('sprite/cart.svg', 'icon-')).toBe('icon-cart');
+    expect(getSymbolId('sprite/icon-user.svg', 'icon-')).toBe('icon-user');
+  });
+
+  it('combines the SVG files into symbols, with their viewBox', async () => {
+    const symbols = await readSymbols(
+      [fixture.path('public/sprite/icon-user.svg'), fixture.path('public/sprite/cart.svg')],
+      sprite,
+    );
+    const content = buildSprite(symbols, sprite);
+
+    expect(content).toContain(
+      '<svg xmlns="http://www.w3.org/2000/svg" style="display: none">' +
+        '<symbol id="icon-cart" viewBox="0 0 20 20"><path d="M1 1"/></symbol>' +
+        '<symbol id="icon-user" viewBox="0 0 20 20"><circle r=\'4\'/></symbol></svg>',
+    );
+  });
+
+  it('defaults the icon size to the viewBox size shared by all symbols', () => {
+    expect(
+      getIconSize([
+        { markup: '', viewBox: '0 0 20 20' },
+        { markup: '', viewBox: '0 0 20 20' },
+      ]),
+    ).toEqual({
+      width: '20',
+      height: '20',
+    });
+    expect(
+      getIconSize([
+        { markup: '', viewBox: '0 0 20 20' },
+        { markup: '', viewBox: '0 0 16 16' },
+      ]),
+    ).toEqual({
+      width: '24',
+      height: '24',
+    });
+    expect(getIconSize([{ markup: '' }])).toEqual({ width: '24', height: '24' });
+  });
+
+  it('renders a single icon of the sprite from the companion snippet', () => {
+    expect(buildIconSnippet(sprite, { width: '20', height: '20' })).toContain(
+      '<svg class="icon-{{ name }} {{ class }}" width="{{ size | default: 20 }}" height="{{ size | default: 20 }}"' +
+        ' aria-hidden="true" focusable="false"><use href="#icon-{{ name }}"></use></svg>',
+    );
+  });
+
+  it('writes the sprite and the icon snippets on build, without copying the SVG files', async () => {
+    await fixture.build({ targets: [{ src: 'sprite/*.svg', sprite: true }] });
+
+    expect(await fixture.read('theme/snippets/icon-sprite.liquid')).toContain('<symbol id="icon-cart"');
+    expect(await fixture.read('theme/snippets/icon.liquid')).toContain('<use href="#icon-{{ name }}">');
+    expect(await fixture.read('theme/snippets/icon.liquid')).toContain('width="{{ size | default: 20 }}"');
+    expect(fixture.exists('theme/assets/cart.svg')).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { optimizeSvg, svgToSnippet } from '../src/svg.js';
+import { createFixture } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+
+const ICON = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Generator: Sketch -->
+<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" class="icon-cart" data-name="Layer 1">
+  <metadata>editor data</metadata>
+  <path d="M0 0h20v20H0z"/>
+</svg>
+`;
+
+describe('optimizeSvg', () => {
+  it('removes the editor metadata, comments and whitespace', () => {
+    expect(optimizeSvg(ICON)).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" class="icon-cart"><path d="M0 0h20v20H0z"/></svg>',
+    );
+  });
+});
+
+describe('svgToSnippet', () => {
+  it('adds the class and size parameters to the root element, instead of its fixed dimensions', () => {
+    expect(svgToSnippet(ICON, 'icon-cart', { className: 'icon', size: 24, comment: false })).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" class="icon-cart icon {{ class }}"' +
+        ' width="{{ size | default: 24 }}" height="{{ size | default: 24 }}"><path d="M0 0h20v20H0z"/></svg>',
+    );
+  });
+
+  it('defaults the size to the viewBox size', () => {
+    expect(svgToSnippet('<svg viewBox="0 0 20 16"><path d="M0 0"/></svg>', 'icon', { comment: false })).toBe(
+      '<svg viewBox="0 0 20 16" class="{{ class }}" width="{{ size | default: 20 }}" height="{{ size | default: 16 }}">' +
+        '<path d="M0 0"/></svg>',
+    );
+    expect(svgToSnippet('<svg><path d="M0 0"/></svg>', 'icon', { comment: false })).toContain(
+      'width="{{ size | default: 24 }}" height="{{ size | default: 24 }}"',
+    );
+  });
+
+  it('reads single quoted attributes', () => {
+    const svg =
+      "<svg xmlns='http://www.w3.org/2000/svg' width='20px' height='20px' class='icon-cart'><path d='M0 0'/></svg>";
+
+    expect(svgToSnippet(svg, 'icon-cart', { comment: false })).toBe(
+      '<svg xmlns=\'http://www.w3.org/2000/svg\' viewBox="0 0 20 20" class="icon-cart {{ class }}"' +
+        ' width="{{ size | default: 20 }}" height="{{ size | default: 20 }}"><path d=\'M0 0\'/></svg>',
+    );
+    expect(svgToSnippet("<svg viewBox='0 0 16 16'/>", 'icon', { size: false, comment: false })).toBe(
+      '<svg viewBox=\'0 0 16 16\' class="{{ class }}"/>',
+    );
+  });
+
+  it('renders without dimensions when size is disabled', () => {
+    const snippet = svgToSnippet('<svg viewBox="0 0 16 16"><path d="M0 0"/></svg>', 'icon', {
+      size: false,
+      comment: false,
+    });
+
+    expect(snippet).toBe('<svg viewBox="0 0 16 16" class="{{ class }}"><path d="M0 0"/></svg>');
+  });
+
+  it('documents the snippet parameters in a comment header', () => {
+    const snippet = svgToSnippet(ICON, 'icon-cart', { size: 16, comment: true });
+
+    expect(snippet).toMatch(/^\{% comment %\}\n {2}Renders the icon-cart SVG icon\./);
+    expect(snippet).toContain("{% render 'icon-cart', class: 'custom-class', size: 16 %}");
+  });
+
+  it('fails on files without a root svg element', () => {
+    expect(() => svgToSnippet('<div></div>', 'icon', { size: 24, comment: false })).toThrow(/root <svg> element/);
+  });
+});
+
+describe('svgSnippet target', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/icons/icon-cart.svg': ICON });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('writes each SVG file as a Liquid snippet', async () => {
+    await fixture.build({ targets: [{ src: 'icons/*.svg', svgSnippet: true }] });
+
+    expect(await fixture.read('theme/snippets/icon-cart.liquid')).toContain('class="icon-cart {{ class }}"');
+    expect(fixture.exists('theme/assets/icon-cart.svg')).toBe(false);
+  });
+});
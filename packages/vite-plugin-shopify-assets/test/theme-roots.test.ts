@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { build } from 'vite';
+
+import shopifyAssets from '../src/index.js';
+import { resolveOptions } from '../src/options.js';
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { PluginShopifyAssetsOptions } from '../src/options.js';
+import type { Fixture } from './fixture.js';
+
+describe('multiple theme roots', () => {
+  let fixture: Fixture;
+  let options: PluginShopifyAssetsOptions;
+
+  beforeEach(async () => {
+    fixture = await createFixture({
+      'public/images/logo.png': 'logo',
+      'public/fonts/font.woff2': 'font',
+    });
+    options = {
+      publicDir: fixture.publicDir,
+      themeRoot: {
+        eu: fixture.path('themes/eu'),
+        us: {
+          root: fixture.path('themes/us'),
+          targets: { 'images/*': { rename: '[name]-us.[ext]' }, 'fonts/*': false },
+        },
+      },
+      targets: ['images/*', 'fonts/*'],
+      manifest: false,
+      cache: fixture.path('node_modules/.cache/content.json'),
+    };
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('resolves the options of each theme root, with its target overrides', () => {
+    const [eu, us] = resolveOptions(options);
+
+    expect(eu?.themeRoot).toBe(fixture.path('themes/eu'));
+    expect(eu?.targets.map(({ src, rename }) => [src, rename])).toEqual([
+      [fixture.path('public/images/*'), undefined],
+      [fixture.path('public/fonts/*'), undefined],
+    ]);
+    expect(us?.themeRoot).toBe(fixture.path('themes/us'));
+    expect(us?.targets.map(({ src, rename }) => [src, rename])).toEqual([
+      [fixture.path('public/images/*'), '[name]-us.[ext]'],
+    ]);
+    expect(us?.cache).toBe(fixture.path('node_modules/.cache/content.us.json'));
+  });
+
+  it('writes the assets of every theme root, each with its own ledger', async () => {
+    const logger = createMemoryLogger();
+    await build({
+      configFile: false,
+      root: fixture.root,
+      logLevel: 'info',
+      customLogger: logger,
+      build: { outDir: fixture.path('dist'), rollupOptions: { input: fixture.path('src/main.js') } },
+      plugins: [shopifyAssets({ ...options, silent: false })],
+    });
+
+    expect(await fixture.read('themes/eu/assets/logo.png')).toBe('logo');
+    expect(await fixture.read('themes/eu/assets/font.woff2')).toBe('font');
+    expect(await fixture.read('themes/us/assets/logo-us.png')).toBe('logo');
+    expect(fixture.exists('themes/us/assets/font.woff2')).toBe(false);
+    expect(fixture.exists('themes/eu/.shopify-assets.json')).toBe(true);
+    expect(fixture.exists('themes/us/.shopify-assets.json')).toBe(true);
+    expect(logger.messages).toContainEqual(expect.stringContaining('[shopify-assets:us] '));
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createFixture } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+import type { TransformContext } from '../src/options.js';
+
+describe('transform', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/scripts/a.js': '\uFEFFconsole.log(1);', 'public/scripts/b.js': 'b' });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('writes the transformed content of the matching files', async () => {
+    await fixture.build({
+      targets: [{ src: 'scripts/*.js', transform: (content) => content.toString().replace(/^\uFEFF/, '') }],
+    });
+
+    expect(await fixture.read('theme/assets/a.js')).toBe('console.log(1);');
+    expect(await fixture.read('theme/assets/b.js')).toBe('b');
+  });
+
+  it('passes the source and the renamed destination of each file', async () => {
+    const contexts: TransformContext[] = [];
+    await fixture.build({
+      targets: [
+        {
+          src: 'scripts/a.js',
+          rename: 'vendor.js',
+          transform: (content, context) => {
+            contexts.push(context);
+            return content;
+          },
+        },
+      ],
+    });
+
+    expect(contexts).toEqual([
+      { src: fixture.path('public/scripts/a.js'), dest: fixture.path('theme/assets/vendor.js') },
+    ]);
+  });
+
+  it('skips the files for which the transform returns null', async () => {
+    await fixture.build({
+      targets: [{ src: 'scripts/*.js', transform: (content, { src }) => (src.endsWith('b.js') ? null : content) }],
+    });
+
+    expect(fixture.exists('theme/assets/a.js')).toBe(true);
+    expect(fixture.exists('theme/assets/b.js')).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { validateAsset } from '../src/validate.js';
+import { createFixture, createMemoryLogger } from './fixture.js';
+
+import type { Fixture } from './fixture.js';
+
+describe('validateAsset', () => {
+  let fixture: Fixture;
+
+  const getRules = async (dest: string) =>
+    (await validateAsset(fixture.path('public/file'), fixture.path(`theme/${dest}`), fixture.themeRoot)).map(
+      ({ rule }) => rule,
+    );
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/file': 'content' });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('accepts the files allowed by Shopify in each theme folder', async () => {
+    expect(await getRules('assets/logo.png')).toEqual([]);
+    expect(await getRules('snippets/icon-cart.liquid')).toEqual([]);
+    expect(await getRules('locales/en.default.json')).toEqual([]);
+  });
+
+  it('reports the file names, extensions and folders rejected by Shopify', async () => {
+    expect(await getRules('assets/my logo.png')).toEqual(['file-name']);
+    expect(await getRules('assets/notes.md')).toEqual(['asset-extension']);
+    expect(await getRules('config/icon.liquid')).toEqual(['folder-extension']);
+    expect(await getRules('images/logo.png')).toEqual(['theme-folder']);
+  });
+
+  it('reports the Liquid files over 256 KB', async () => {
+    await fixture.write('public/file', 'a'.repeat(257 * 1024));
+
+    expect(await getRules('snippets/big.liquid')).toEqual(['file-size']);
+    expect(await getRules('assets/big.js')).toEqual([]);
+  });
+});
+
+describe('theme validation on build', () => {
+  let fixture: Fixture;
+
+  beforeEach(async () => {
+    fixture = await createFixture({ 'public/docs/read me.md': '# Docs' });
+  });
+
+  afterEach(() => fixture.remove());
+
+  it('warns about each invalid file', async () => {
+    const customLogger = createMemoryLogger();
+    await fixture.build({ targets: ['docs/*'] }, { customLogger });
+
+    expect(customLogger.messages).toContainEqual(
+      expect.stringContaining('Invalid Shopify theme file. docs/read me.md: "read me.md" can only contain'),
+    );
+  });
+
+  it('fails with the list of invalid files in strict mode', async () => {
+    await expect(fixture.build({ targets: ['docs/*'], strict: true })).rejects.toThrow(
+      /Invalid Shopify theme files:\n {2}- docs\/read me\.md: .*\(file-name\)\n {2}- docs\/read me\.md: .*\(asset-extension\)/,
+    );
+  });
+});